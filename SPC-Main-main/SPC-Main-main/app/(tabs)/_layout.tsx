@@ -17,6 +17,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="heatmap"
+        options={{
+          title: 'Heat Map',
+          tabBarIcon: ({ size, color }) => (
+            <BarChart2 size={size} color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
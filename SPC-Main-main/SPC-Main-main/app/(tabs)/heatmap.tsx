@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { Grid3x3 } from 'lucide-react-native';
+import { DatePickerInput } from '../../components/DatePickerInput';
+import { MultiSelect } from '../../components/MultiSelect';
+import { CapabilityHeatMap } from '../../components/CapabilityHeatMap';
+import {
+  fetchShiftData,
+  fetchMaterialList,
+  fetchOperationList,
+  fetchGuageList,
+  fetchInspectionData,
+  GuageData,
+  MaterialData,
+  OperationData,
+  ShiftData
+} from '../../api/spcApi';
+import {
+  analyzeInspectionData,
+  buildCapabilityHeatMap,
+  CapabilityHeatMap as HeatMap,
+  CharacteristicCapability,
+  getSupportedSampleSizes,
+  HEAT_MAP_LAYOUTS,
+  HeatMapLayout,
+  SpcAnalysisError
+} from '../../lib/spc';
+import { mapInBatches } from '../../lib/batch';
+
+// Requests in flight at once while sweeping the plant
+const BATCH_SIZE = 4;
+
+interface Characteristic {
+  material: MaterialData;
+  operation: OperationData;
+  gauge: GuageData;
+}
+
+interface Progress {
+  stage: string;
+  done: number;
+  total: number;
+}
+
+export default function HeatMapScreen() {
+  const [startDate, setStartDate] = useState(new Date());
+  const [endDate, setEndDate] = useState(new Date());
+  const [shifts, setShifts] = useState<ShiftData[]>([]);
+  const [selectedShifts, setSelectedShifts] = useState<number[]>([]);
+  const [layout, setLayout] = useState<HeatMapLayout>('material-operation');
+  const [materials, setMaterials] = useState<MaterialData[]>([]);
+  const [material, setMaterial] = useState('');
+  const [sampleSize, setSampleSize] = useState(1);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [heatMap, setHeatMap] = useState<HeatMap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchShiftData()
+      .then(shiftData => setShifts(shiftData.data))
+      .catch(error => {
+        setError('Error loading shift data');
+        console.error('Error loading shift data:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (layout === 'operation-gauge' && selectedShifts.length > 0) {
+      fetchMaterialList(startDate, endDate, selectedShifts)
+        .then(setMaterials)
+        .catch(error => {
+          setError('Error loading materials');
+          console.error('Error loading materials:', error);
+        });
+    }
+  }, [layout, startDate, endDate, selectedShifts]);
+
+  const handleShiftSelection = (values: (string | number)[]) => {
+    setSelectedShifts(values.map(v => Number(v)));
+  };
+
+  // Cpk of one characteristic under the same cascade the analysis screen uses
+  const analyzeCharacteristic = async ({ material, operation, gauge }: Characteristic): Promise<CharacteristicCapability> => {
+    const ids = {
+      materialCode: material.MaterialCode,
+      materialName: material.MaterialName,
+      operationCode: operation.OperationCode,
+      operationName: operation.OperationName,
+      guageCode: gauge.GuageCode,
+      guageName: gauge.GuageName
+    };
+    try {
+      const inspectionData = await fetchInspectionData(
+        startDate,
+        endDate,
+        material.MaterialCode,
+        operation.OperationCode,
+        gauge.GuageCode,
+        selectedShifts
+      );
+      const analysis = analyzeInspectionData(
+        inspectionData.filter(data => selectedShifts.includes(data.ShiftCode)),
+        { sampleSize, chartType: sampleSize === 1 ? 'i-mr' : 'xbar-r' }
+      );
+      return { ...ids, readings: analysis.distribution.values.length, cpk: analysis.metrics.cpk, error: null };
+    } catch (error) {
+      return {
+        ...ids,
+        readings: 0,
+        cpk: null,
+        error: error instanceof SpcAnalysisError ? error.message : 'Error fetching readings'
+      };
+    }
+  };
+
+  const handleBuild = async () => {
+    if (!selectedShifts.length) {
+      setError('Please select at least one shift');
+      return;
+    }
+    if (layout === 'operation-gauge' && !material) {
+      setError('Please select a material');
+      return;
+    }
+
+    setError(null);
+    setWarning(null);
+    setHeatMap(null);
+    // Lists that fail to load drop their rows; the count is reported after
+    let failedLists = 0;
+
+    try {
+      setProgress({ stage: 'Listing materials', done: 0, total: 1 });
+      const materialList = layout === 'operation-gauge'
+        ? materials.filter(m => m.MaterialCode === material)
+        : await fetchMaterialList(startDate, endDate, selectedShifts);
+
+      const withOperations = await mapInBatches(
+        materialList,
+        BATCH_SIZE,
+        async m => ({
+          material: m,
+          operations: await fetchOperationList(startDate, endDate, m.MaterialCode, selectedShifts).catch(error => {
+            console.error(`Error loading operations for ${m.MaterialCode}:`, error);
+            failedLists++;
+            return [] as OperationData[];
+          })
+        }),
+        (done, total) => setProgress({ stage: 'Listing operations', done, total })
+      );
+
+      const pairs = withOperations.flatMap(({ material: m, operations }) =>
+        operations.map(operation => ({ material: m, operation }))
+      );
+      const withGauges = await mapInBatches(
+        pairs,
+        BATCH_SIZE,
+        async ({ material: m, operation }) => ({
+          material: m,
+          operation,
+          gauges: await fetchGuageList(startDate, endDate, m.MaterialCode, operation.OperationCode, selectedShifts)
+            .catch(error => {
+              console.error(`Error loading gauges for ${m.MaterialCode}/${operation.OperationCode}:`, error);
+              failedLists++;
+              return [] as GuageData[];
+            })
+        }),
+        (done, total) => setProgress({ stage: 'Listing gauges', done, total })
+      );
+
+      const characteristics = withGauges.flatMap(({ material: m, operation, gauges }) =>
+        gauges.map(gauge => ({ material: m, operation, gauge }))
+      );
+      if (characteristics.length === 0) {
+        setError('No characteristics found for the selected range and shifts');
+        return;
+      }
+
+      const results = await mapInBatches(
+        characteristics,
+        BATCH_SIZE,
+        analyzeCharacteristic,
+        (done, total) => setProgress({ stage: 'Analyzing characteristics', done, total })
+      );
+
+      setHeatMap(buildCapabilityHeatMap(results, layout));
+      if (failedLists > 0) {
+        setWarning(`${failedLists} operation or gauge list(s) could not be loaded and are missing from the map`);
+      }
+    } catch (error) {
+      console.error('Error building heat map:', error);
+      setError('Error building the heat map. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Capability Heat Map</Text>
+          <Text style={styles.subtitle}>Worst Cpk across the plant</Text>
+        </View>
+
+        <View style={styles.card}>
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.sectionTitle}>Date Range</Text>
+            <DatePickerInput label="Start Date" value={startDate} onChange={setStartDate} />
+            <DatePickerInput label="End Date" value={endDate} onChange={setEndDate} />
+          </View>
+
+          <MultiSelect
+            label="Shifts"
+            options={shifts.map(s => ({ value: s.ShiftId, label: s.ShiftName }))}
+            selectedValues={selectedShifts}
+            onSelectionChange={handleShiftSelection}
+          />
+
+          <View style={styles.pickerContainer}>
+            <Text style={styles.label}>Layout</Text>
+            <Picker
+              selectedValue={layout}
+              onValueChange={(value) => setLayout(value as HeatMapLayout)}
+              style={styles.picker}
+            >
+              {HEAT_MAP_LAYOUTS.map(l => (
+                <Picker.Item key={l.value} label={l.label} value={l.value} />
+              ))}
+            </Picker>
+          </View>
+
+          {layout === 'operation-gauge' && (
+            <View style={styles.pickerContainer}>
+              <Text style={styles.label}>Material</Text>
+              <Picker selectedValue={material} onValueChange={setMaterial} style={styles.picker}>
+                <Picker.Item label="Select Material" value="" />
+                {materials.map(m => (
+                  <Picker.Item key={m.MaterialCode} label={m.MaterialName} value={m.MaterialCode} />
+                ))}
+              </Picker>
+            </View>
+          )}
+
+          <View style={styles.pickerContainer}>
+            <Text style={styles.label}>Sample Size</Text>
+            <Picker
+              selectedValue={sampleSize}
+              onValueChange={(value) => setSampleSize(Number(value))}
+              style={styles.picker}
+            >
+              {getSupportedSampleSizes().map(size => (
+                <Picker.Item key={size} label={`${size}`} value={size} />
+              ))}
+            </Picker>
+            <Text style={styles.hint}>
+              1 charts individuals (I-MR); larger sizes use X̄-R subgroups of consecutive readings.
+            </Text>
+          </View>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.buildButton,
+              pressed && styles.buttonPressed,
+              progress !== null && styles.buttonDisabled
+            ]}
+            onPress={handleBuild}
+            disabled={progress !== null}
+          >
+            {progress ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <Grid3x3 size={20} color="#fff" />
+                <Text style={styles.buttonText}>Build Heat Map</Text>
+              </>
+            )}
+          </Pressable>
+
+          {progress && (
+            <View style={styles.progress}>
+              <Text style={styles.progressText}>
+                {progress.stage} · {progress.done} of {progress.total}
+              </Text>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressBar,
+                    { width: `${progress.total > 0 ? (100 * progress.done) / progress.total : 0}%` }
+                  ]}
+                />
+              </View>
+            </View>
+          )}
+        </View>
+
+        {warning && (
+          <View style={styles.warningContainer}>
+            <Text style={styles.warningText}>{warning}</Text>
+          </View>
+        )}
+
+        {heatMap && <CapabilityHeatMap key={heatMap.layout} heatMap={heatMap} />}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  pickerContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  picker: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    height: 48,
+  },
+  buildButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  progress: {
+    marginTop: 12,
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#374151',
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E5E7EB',
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#2563EB',
+  },
+  errorContainer: {
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#DC2626',
+    fontSize: 14,
+  },
+  warningContainer: {
+    backgroundColor: '#FFFBEB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  warningText: {
+    color: '#B45309',
+    fontSize: 13,
+  },
+});
@@ -1,14 +1,73 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, Pressable, ActivityIndicator, Platform } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
+import { router, useFocusEffect } from 'expo-router';
 import { DatePickerInput } from '../../components/DatePickerInput';
 import { MultiSelect } from '../../components/MultiSelect';
 import { ProcessMetrics } from '../../components/ProcessMetrics';
 import { ControlCharts } from '../../components/ControlCharts';
 import { DistributionChart } from '../../components/DistributionChart';
 import { HistogramChart } from '../../components/HistogramChart';
+import { SignalsList } from '../../components/SignalsList';
+import { BaselinePanel } from '../../components/BaselinePanel';
+import { StageCapability } from '../../components/StageCapability';
+import { CusumChart } from '../../components/CusumChart';
+import { EwmaChart } from '../../components/EwmaChart';
+import { AttributeChart } from '../../components/AttributeChart';
+import { NormalProbabilityPlot } from '../../components/NormalProbabilityPlot';
+import { SpecRevisionNotice } from '../../components/SpecRevisionNotice';
+import { CapabilitySixpack } from '../../components/CapabilitySixpack';
+import { GaugeRRPanel } from '../../components/GaugeRRPanel';
+import { GaugeDashboard } from '../../components/GaugeDashboard';
 import { fetchShiftData, fetchMaterialList, fetchOperationList, fetchGuageList, fetchInspectionData } from '../../api/spcApi';
-import { Search, Filter, Download } from 'lucide-react-native';
+import {
+  ALL_NELSON_RULES,
+  analyzeAttributeData,
+  analyzeInspectionData,
+  ATTRIBUTE_CHART_TYPES,
+  AttributeAnalysis,
+  AttributeChartType,
+  AttributeGrouping,
+  CAPABILITY_METHODS,
+  CapabilityMethod,
+  CONFIDENCE_LEVELS,
+  DEFAULT_CONFIDENCE_LEVEL,
+  DEFAULT_HISTOGRAM_OPTIONS,
+  HistogramOptions,
+  MIN_CAPABILITY_LOWER_BOUND,
+  MIN_STAGE_SUBGROUPS,
+  PpmEstimate,
+  SpecHandling,
+  CHART_TYPES,
+  ChartType,
+  ControlLimitBaseline,
+  createBaseline,
+  detectSignals,
+  analyzeGaugeStudy,
+  GAUGE_RR_METHODS,
+  failedGaugeSummary,
+  GaugeCapabilitySummary,
+  GaugeStudy,
+  getSubgroupShifts,
+  getSupportedSampleSizes,
+  InspectionData,
+  isBaselineCompatible,
+  MOVING_RANGE_SPANS,
+  NELSON_RULES,
+  NelsonRule,
+  PointExclusion,
+  SpcAnalysis,
+  SpcAnalysisError,
+  SpcAnalysisOptions,
+  STAGE_BY_OPTIONS,
+  StageBy,
+  summarizeAttributeGauge,
+  summarizeGaugeCapability
+} from '../../lib/spc';
+import { loadEnabledRules, saveEnabledRules } from '../../lib/settings';
+import { loadBaseline, removeBaseline, saveBaseline } from '../../lib/baselineStore';
+import { loadGaugeStudy } from '../../lib/gaugeStudyStore';
+import { Search, Filter, Download, LayoutGrid } from 'lucide-react-native';
 import '@babel/runtime/helpers/interopRequireDefault';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
@@ -34,28 +93,32 @@ interface GuageData {
   GuageName: string;
 }
 
-interface InspectionData {
-  ActualSpecification: string;
-  FromSpecification: string;
-  ToSpecification: string;
-  ShiftCode: number;
-  TrnDate: string;
+// The fetched data and settings behind the current analysis, kept so the
+// limits can be frozen or recalculated without fetching again
+interface AnalysisInput {
+  data: InspectionData[];
+  options: SpcAnalysisOptions;
+  materialCode: string;
+  operationCode: string;
+  guageCode: string;
 }
 
-interface Subgroup {
-  mean: number;
-  range: number;
-  values: number[];
-}
+// Free text typed in the app, made safe to place in the report HTML
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 
-// SPC Constants for different sample sizes
-const SPC_CONSTANTS = {
-  1: { A2: 2.66, D3: 0, D4: 3.267, d2: 1.128 },
-  2: { A2: 1.88, D3: 0, D4: 3.267, d2: 1.128 },
-  3: { A2: 1.023, D3: 0, D4: 2.575, d2: 1.693 },
-  4: { A2: 0.729, D3: 0, D4: 2.282, d2: 2.059 },
-  5: { A2: 0.577, D3: 0, D4: 2.115, d2: 2.326 }
-} as const;
+const analyzeWithBaseline = (input: AnalysisInput, baseline: ControlLimitBaseline | null) =>
+  analyzeInspectionData(input.data, {
+    ...input.options,
+    frozenLimits: baseline && isBaselineCompatible(baseline, input.options)
+      ? baseline.limits
+      : undefined
+  });
 
 export default function AnalysisScreen() {
   const [selectedShifts, setSelectedShifts] = useState<number[]>([]);
@@ -65,34 +128,64 @@ export default function AnalysisScreen() {
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState(new Date());
   const [sampleSize, setSampleSize] = useState(1);
+  const [chartType, setChartType] = useState<ChartType>('xbar-r');
+  const [movingRangeSpan, setMovingRangeSpan] = useState(2);
+  const [stageBy, setStageBy] = useState<StageBy>('none');
+  const [capabilityMethod, setCapabilityMethod] = useState<CapabilityMethod>('normal');
+  const [specHandling, setSpecHandling] = useState<SpecHandling>('revision');
+  const [confidenceLevel, setConfidenceLevel] = useState(DEFAULT_CONFIDENCE_LEVEL);
+  // Every chart and card, or the one-page capability sixpack
+  const [histogramOptions, setHistogramOptions] = useState<HistogramOptions>(DEFAULT_HISTOGRAM_OPTIONS);
+  const [resultView, setResultView] = useState<'detailed' | 'sixpack'>('detailed');
+  // Variables charts use the readings; attribute charts count pass/fail
+  const [dataMode, setDataMode] = useState<'variables' | 'attributes'>('variables');
+  const [attributeChartType, setAttributeChartType] = useState<AttributeChartType>('p');
+  const [attributeGrouping, setAttributeGrouping] = useState<AttributeGrouping>('subgroup');
+  const [enabledRules, setEnabledRules] = useState<NelsonRule[]>(ALL_NELSON_RULES);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloading, setDownloading] = useState(false);
+  const [inspectionCount, setInspectionCount] = useState<number | undefined>(undefined);
 
   const [shifts, setShifts] = useState<ShiftData[]>([]);
   const [materials, setMaterials] = useState<MaterialData[]>([]);
   const [operations, setOperations] = useState<OperationData[]>([]);
   const [gauges, setGauges] = useState<GuageData[]>([]);
 
-  const [analysisData, setAnalysisData] = useState<{
-    metrics: any;
-    controlCharts: {
-      xBarData: any[];
-      rangeData: any[];
-      limits: any;
-    };
-    distribution: {
-      data: any[];
-      stats: any;
-      numberOfBins: number;
-    };
-  } | null>(null);
+  const [analysisData, setAnalysisData] = useState<SpcAnalysis | null>(null);
+  const [attributeData, setAttributeData] = useState<AttributeAnalysis | null>(null);
+  const [analysisInput, setAnalysisInput] = useState<AnalysisInput | null>(null);
+  const [baseline, setBaseline] = useState<ControlLimitBaseline | null>(null);
+  const [savingBaseline, setSavingBaseline] = useState(false);
+  const [gaugeStudy, setGaugeStudy] = useState<GaugeStudy | null>(null);
+  // Every gauge of the material/operation, analyzed with the same settings
+  const [dashboardRows, setDashboardRows] = useState<GaugeCapabilitySummary[] | null>(null);
+  // Data type the dashboard rows were built with
+  const [dashboardMode, setDashboardMode] = useState<'variables' | 'attributes'>('variables');
+  const [dashboardProgress, setDashboardProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const signals = useMemo(
+    () => (analysisData ? detectSignals(analysisData, enabledRules) : []),
+    [analysisData, enabledRules]
+  );
 
   useEffect(() => {
     loadInitialData();
   }, []);
 
+  // Pick up a study saved on the Gauge R&R screen when coming back
+  useFocusEffect(
+    useCallback(() => {
+      if (!analysisInput) return;
+      loadGaugeStudy(analysisInput.materialCode, analysisInput.operationCode, analysisInput.guageCode)
+        .then(setGaugeStudy)
+        .catch(() => setGaugeStudy(null));
+    }, [analysisInput?.materialCode, analysisInput?.operationCode, analysisInput?.guageCode])
+  );
+
   const loadInitialData = async () => {
+    loadEnabledRules().then(setEnabledRules);
+
     try {
       const shiftData = await fetchShiftData();
       setShifts(shiftData.data);
@@ -149,65 +242,45 @@ export default function AnalysisScreen() {
       console.error('Error loading gauges:', error);
     }
   };
-  const calculateSubgroups = (data: InspectionData[], size: number): Subgroup[] => {
-    const sortedData = data
-      .map(d => {
-        // Clean and parse the numeric value - remove L50 suffix and any commas
-        const cleanValue = d.ActualSpecification.replace(/L50|,/g, '');
-        const value = parseFloat(cleanValue);
-        
-        if (isNaN(value)) {
-          console.warn('Invalid measurement value found:', d.ActualSpecification);
-          return null;
-        }
-        return {
-          ...d,
-          value,
-          date: new Date(d.TrnDate)
-        };
-      })
-      .filter((d): d is NonNullable<typeof d> => d !== null)
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
-  
-    if (sortedData.length === 0) {
-      throw new Error('No valid data points found');
-    }
-  
-    const subgroups: Subgroup[] = [];
-    
-    if (size === 1) {
-      // For sample size 1, use individual values
-      sortedData.forEach((data, i) => {
-        const range = i === 0 ? 0 : Math.abs(data.value - sortedData[i - 1].value);
-        subgroups.push({
-          mean: data.value,
-          range,
-          values: [data.value]
-        });
-      });
-    } else {
-      // For sample sizes > 1, group data points
-      for (let i = 0; i < sortedData.length - (size - 1); i += size) {
-        const groupData = sortedData.slice(i, i + size);
-        const values = groupData.map(d => d.value);
-        
-        subgroups.push({
-          mean: values.reduce((a, b) => a + b, 0) / size,
-          range: Math.max(...values) - Math.min(...values),
-          values
-        });
-      }
-    }
-  
-    if (subgroups.length === 0) {
-      throw new Error(`Not enough data points for sample size ${size}`);
-    }
-  
-    return subgroups;
+
+  useEffect(() => {
+    setInspectionCount(undefined);
+  }, [gauge, startDate, endDate, selectedShifts]);
+
+  useEffect(() => {
+    setDashboardRows(null);
+  }, [material, operation, startDate, endDate, selectedShifts]);
+
+  // A sample size of 1 always means an Individuals-Moving Range chart
+  const effectiveChartType: ChartType = sampleSize === 1 ? 'i-mr' : chartType;
+
+  const analysisOptions = (): SpcAnalysisOptions => ({
+    sampleSize,
+    chartType: effectiveChartType,
+    movingRangeSpan,
+    stageBy,
+    capabilityMethod,
+    specHandling,
+    confidenceLevel,
+    histogram: histogramOptions
+  });
+
+  const fetchShiftReadings = async (guageCode: string) => {
+    const inspectionData = await fetchInspectionData(
+      startDate,
+      endDate,
+      material,
+      operation,
+      guageCode,
+      selectedShifts
+    );
+    return inspectionData.filter((data: { ShiftCode: number; }) =>
+      selectedShifts.includes(data.ShiftCode)
+    );
   };
 
-  const handleAnalyze = async () => {
-    if (!selectedShifts.length || !material || !operation || !gauge) {
+  const handleAnalyze = async (guageCode = gauge) => {
+    if (!selectedShifts.length || !material || !operation || !guageCode) {
       setError('Please select all required fields');
       return;
     }
@@ -216,174 +289,251 @@ export default function AnalysisScreen() {
     setError(null);
 
     try {
-      const inspectionData = await fetchInspectionData(
-        startDate,
-        endDate,
-        material,
-        operation,
-        gauge,
-        selectedShifts
-      );
-
-      const filteredData = inspectionData.filter((data: { ShiftCode: number; }) => 
-        selectedShifts.includes(data.ShiftCode)
-      );
+      const filteredData = await fetchShiftReadings(guageCode);
+      setInspectionCount(filteredData.length);
 
-      if (filteredData.length === 0) {
-        setError('No data available for the selected criteria');
-        setLoading(false);
+      if (dataMode === 'attributes') {
+        setAttributeData(analyzeAttributeData(filteredData, {
+          chartType: attributeChartType,
+          grouping: attributeGrouping,
+          subgroupSize: sampleSize
+        }));
+        setAnalysisData(null);
+        setAnalysisInput(null);
         return;
       }
 
-      if (filteredData.length < sampleSize) {
-        setError(`Not enough data points. Need at least ${sampleSize} points for sample size ${sampleSize}`);
-        setLoading(false);
-        return;
-      }
+      const input: AnalysisInput = {
+        data: filteredData,
+        options: analysisOptions(),
+        materialCode: material,
+        operationCode: operation,
+        guageCode
+      };
+      const savedBaseline = await loadBaseline(material, operation, guageCode).catch(() => null);
+      const savedStudy = await loadGaugeStudy(material, operation, guageCode).catch(() => null);
 
-      const subgroups = calculateSubgroups(filteredData, sampleSize);
-      
-      if (subgroups.length === 0) {
-        setError('Not enough complete subgroups for analysis');
-        setLoading(false);
-        return;
-      }
+      setAnalysisData(analyzeWithBaseline(input, savedBaseline));
+      setAttributeData(null);
+      setAnalysisInput(input);
+      setBaseline(savedBaseline);
+      setGaugeStudy(savedStudy);
+    } catch (error) {
+      console.error('Error analyzing data:', error);
+      setError(
+        error instanceof SpcAnalysisError
+          ? error.message
+          : 'Error analyzing data. Please try again.'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      const xBarData = subgroups.map((sg, i) => ({ x: i + 1, y: sg.mean }));
-      const rangeData = subgroups.map((sg, i) => ({ x: i + 1, y: sg.range }));
+  // Gauges are fetched one at a time so a long list doesn't flood the server.
+  // A gauge that fails keeps its row with the reason.
+  const handleAnalyzeAllGauges = async () => {
+    if (!selectedShifts.length || !material || !operation) {
+      setError('Please select shifts, material and operation');
+      return;
+    }
+    if (!gauges.length) {
+      setError('No gauges found for this material and operation');
+      return;
+    }
 
-      const mean = xBarData.reduce((a, b) => a + b.y, 0) / xBarData.length;
+    // Settings are read once so a change mid-run can't mix two kinds of row
+    const mode = dataMode;
+    const options = analysisOptions();
+    const attributeOptions = { chartType: attributeChartType, grouping: attributeGrouping, subgroupSize: sampleSize };
 
-      const rangeMean = Math.max(
-        sampleSize === 1
-          ? rangeData.reduce((a, b) => a + b.y, 0) / rangeData.length
-          : rangeData.reduce((a, b) => a + b.y, 0) / rangeData.length,
-        0.0001
-      );
+    setLoading(true);
+    setError(null);
+    setDashboardProgress({ done: 0, total: gauges.length });
+    const rows: GaugeCapabilitySummary[] = [];
 
-      const constants = SPC_CONSTANTS[sampleSize as keyof typeof SPC_CONSTANTS];
-      const { A2, D3, D4, d2 } = constants;
+    try {
+      for (const g of gauges) {
+        const ids = { guageCode: g.GuageCode, guageName: g.GuageName };
+        try {
+          const data = await fetchShiftReadings(g.GuageCode);
+          if (mode === 'attributes') {
+            rows.push(summarizeAttributeGauge(ids, analyzeAttributeData(data, attributeOptions)));
+          } else {
+            const input: AnalysisInput = {
+              data,
+              options,
+              materialCode: material,
+              operationCode: operation,
+              guageCode: g.GuageCode
+            };
+            const savedBaseline = await loadBaseline(material, operation, g.GuageCode).catch(() => null);
+            const analysis = analyzeWithBaseline(input, savedBaseline);
+            rows.push(summarizeGaugeCapability(ids, analysis, detectSignals(analysis, enabledRules)));
+          }
+        } catch (error) {
+          console.error(`Error analyzing gauge ${g.GuageCode}:`, error);
+          rows.push(failedGaugeSummary(
+            ids,
+            error instanceof SpcAnalysisError ? error.message : 'Error fetching readings'
+          ));
+        }
+        setDashboardProgress({ done: rows.length, total: gauges.length });
+      }
 
-      const xBarUcl = sampleSize === 1
-        ? mean + (2.66 * rangeMean)
-        : mean + (A2 * rangeMean);
+      setDashboardRows(rows);
+      setDashboardMode(mode);
+    } finally {
+      setDashboardProgress(null);
+      setLoading(false);
+    }
+  };
 
-      const xBarLcl = sampleSize === 1
-        ? mean - (2.66 * rangeMean)
-        : mean - (A2 * rangeMean);
+  const handleSelectDashboardGauge = (guageCode: string) => {
+    setGauge(guageCode);
+    handleAnalyze(guageCode);
+  };
 
-      const rangeUcl = D4 * rangeMean;
-      const rangeLcl = D3 * rangeMean;
+  const handleSetBaseline = async (setBy: string) => {
+    if (!analysisInput) return;
 
-      const usl = parseFloat(filteredData[0].ToSpecification);
-      const lsl = parseFloat(filteredData[0].FromSpecification);
+    setSavingBaseline(true);
+    try {
+      // Limits always come from the selected range, never from the old baseline
+      const phaseOne = analyzeInspectionData(analysisInput.data, analysisInput.options);
+      const newBaseline = createBaseline(phaseOne, analysisInput, setBy);
+      await saveBaseline(newBaseline);
+      setBaseline(newBaseline);
+      setAnalysisData(analyzeWithBaseline(analysisInput, newBaseline));
+    } catch (error) {
+      console.error('Error saving baseline:', error);
+      setError('Error saving baseline limits');
+    } finally {
+      setSavingBaseline(false);
+    }
+  };
 
-      if (usl <= lsl) {
-        setError('Invalid specification limits: USL must be greater than LSL');
-        setLoading(false);
-        return;
-      }
+  const handleReleaseBaseline = async () => {
+    if (!analysisInput) return;
 
-      const stdDev = Math.max(rangeMean / d2, 0.0001);
+    setSavingBaseline(true);
+    try {
+      await removeBaseline(analysisInput.materialCode, analysisInput.operationCode, analysisInput.guageCode);
+      setBaseline(null);
+      setAnalysisData(analyzeWithBaseline(analysisInput, null));
+    } catch (error) {
+      console.error('Error removing baseline:', error);
+      setError('Error removing baseline limits');
+    } finally {
+      setSavingBaseline(false);
+    }
+  };
 
-      const calculateCapabilityIndex = (value: number) => {
-        if (!isFinite(value) || Math.abs(value) > 1000) {
-          return 999.999;
-        }
-        return value;
-      };
+  // The study is judged against the spec revision being analyzed
+  const handleOpenGaugeStudy = () => {
+    if (!analysisInput || !analysisData) return;
 
-      const cp = calculateCapabilityIndex((usl - lsl) / (6 * stdDev));
-      const cpu = calculateCapabilityIndex((usl - mean) / (3 * stdDev));
-      const cpl = calculateCapabilityIndex((mean - lsl) / (3 * stdDev));
-      const cpk = Math.min(cpu, cpl);
-
-      const allValues = subgroups.flatMap(sg => sg.values);
-      const numberOfBins = Math.ceil(Math.sqrt(allValues.length));
-      
-      const min = Math.min(...allValues);
-      const max = Math.max(...allValues);
-      const processWidth = max - min;
-      const binWidth = processWidth / numberOfBins;
-      
-      const binStart = Math.min(min, lsl);
-      
-      const binCounts = new Array(numberOfBins).fill(0);
-      allValues.forEach(value => {
-        const binIndex = Math.min(
-          Math.floor((value - binStart) / binWidth),
-          numberOfBins - 1
-        );
-        binCounts[binIndex]++;
-      });
+    const { revisions, revision } = analysisData.specs;
+    const spec = revisions[revision ?? revisions.length - 1];
+    router.push({
+      pathname: '/gauge-rr',
+      params: {
+        materialCode: analysisInput.materialCode,
+        operationCode: analysisInput.operationCode,
+        guageCode: analysisInput.guageCode,
+        guageName: gauges.find(g => g.GuageCode === analysisInput.guageCode)?.GuageName ?? '',
+        lsl: spec?.lsl?.toString() ?? '',
+        usl: spec?.usl?.toString() ?? ''
+      }
+    });
+  };
 
-      const distributionData = binCounts.map((count, i) => ({
-        x: binStart + (i * binWidth) + (binWidth / 2),
-        y: count,
-        isWithinSpec: (binStart + i * binWidth) >= lsl && (binStart + (i+1) * binWidth) <= usl,
-        containsTarget: (binStart + i * binWidth) <= ((usl + lsl) / 2) && (binStart + (i+1) * binWidth) >= ((usl + lsl) / 2)
-      }));
-
-      setAnalysisData({
-        metrics: {
-          xBar: Number(mean.toFixed(4)),
-          stdDevOverall: Number(stdDev.toFixed(4)),
-          stdDevWithin: Number(stdDev.toFixed(4)),
-          movingRange: Number(rangeMean.toFixed(4)),
-          cp: Number(cp.toFixed(4)),
-          cpkUpper: Number(cpu.toFixed(4)),
-          cpkLower: Number(cpl.toFixed(4)),
-          cpk: Number(cpk.toFixed(4)),
-          pp: Number(cp.toFixed(4)),
-          ppu: Number(cpu.toFixed(4)),
-          ppl: Number(cpl.toFixed(4)),
-          ppk: Number(cpk.toFixed(4)),
-          lsl: Number(lsl.toFixed(4)),
-          usl: Number(usl.toFixed(4))
-        },
-        controlCharts: {
-          xBarData,
-          rangeData,
-          limits: {
-            xBarUcl: Number(xBarUcl.toFixed(4)),
-            xBarLcl: Number(xBarLcl.toFixed(4)),
-            xBarMean: Number(mean.toFixed(4)),
-            rangeUcl: Number(rangeUcl.toFixed(4)),
-            rangeLcl: Number(rangeLcl.toFixed(4)),
-            rangeMean: Number(rangeMean.toFixed(4))
-          }
-        },
-        distribution: {
-          data: distributionData,
-          stats: {
-            mean: Number(mean.toFixed(4)),
-            stdDev: Number(stdDev.toFixed(4)),
-            target: Number(((usl + lsl) / 2).toFixed(4)),
-            min: min,
-            max: max,
-            processWidth: processWidth,
-            binWidth: binWidth,
-            binStart: binStart
-          },
-          numberOfBins
-        }
-      });
+  // Re-run the current analysis with changed options, without fetching again
+  const reanalyze = (changes: Partial<SpcAnalysisOptions>) => {
+    if (!analysisInput) return;
+
+    const input = { ...analysisInput, options: { ...analysisInput.options, ...changes } };
+    try {
+      setAnalysisData(analyzeWithBaseline(input, baseline));
+      setAnalysisInput(input);
+      setError(null);
     } catch (error) {
-      console.error('Error analyzing data:', error);
-      setError('Error analyzing data. Please try again.');
-    } finally {
-      setLoading(false);
+      console.error('Error recalculating analysis:', error);
+      setError(
+        error instanceof SpcAnalysisError
+          ? error.message
+          : 'Error recalculating the analysis'
+      );
     }
   };
 
+  const handleExcludePoint = (subgroup: number, reason: string) => {
+    const current = analysisInput?.options.exclusions ?? [];
+    reanalyze({ exclusions: [...current.filter(e => e.subgroup !== subgroup), { subgroup, reason }] });
+  };
+
+  const handleRestorePoint = (subgroup: number) => {
+    const current = analysisInput?.options.exclusions ?? [];
+    reanalyze({ exclusions: current.filter(e => e.subgroup !== subgroup) });
+  };
+
+  const handleStageByChange = (value: StageBy) => {
+    setStageBy(value);
+    reanalyze({ stageBy: value });
+  };
+
+  const handleCapabilityMethodChange = (value: CapabilityMethod) => {
+    setCapabilityMethod(value);
+    reanalyze({ capabilityMethod: value });
+  };
+
+  const handleHistogramOptionsChange = (value: HistogramOptions) => {
+    setHistogramOptions(value);
+    reanalyze({ histogram: value });
+  };
+
+  const handleConfidenceLevelChange = (value: number) => {
+    setConfidenceLevel(value);
+    reanalyze({ confidenceLevel: value });
+  };
+
+  // Subgroup numbers change with the readings analyzed, so exclusions and
+  // stage breaks are cleared
+  const handleSpecHandlingChange = (handling: SpecHandling, revision?: number) => {
+    setSpecHandling(handling);
+    reanalyze({ specHandling: handling, specRevision: revision, exclusions: [], stageBreaks: [] });
+  };
+
+  const handleToggleStageBreak = (subgroup: number) => {
+    const current = analysisInput?.options.stageBreaks ?? [];
+    reanalyze({
+      stageBreaks: current.includes(subgroup)
+        ? current.filter(b => b !== subgroup)
+        : [...current, subgroup].sort((a, b) => a - b)
+    });
+  };
+
   const handleShiftSelection = (values: (string | number)[]) => {
     setSelectedShifts(values.map(v => Number(v)));
   };
 
+  const handleRuleSelection = async (values: (string | number)[]) => {
+    const rules = values.map(v => Number(v) as NelsonRule).sort((a, b) => a - b);
+    setEnabledRules(rules);
+    try {
+      await saveEnabledRules(rules);
+    } catch (error) {
+      setError('Error saving rule settings');
+    }
+  };
+
   const generateHTML = () => {
     if (!analysisData) return '';
   
-    const { metrics, controlCharts, distribution } = analysisData;
+    const { metrics, capabilityIntervals, defectRates, specs, normality, nonNormalCapability, controlCharts, distribution } = analysisData;
+    const formatPValue = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+    const chartInfo = CHART_TYPES[controlCharts.chartType];
+    const gaugeResult = gaugeStudy ? analyzeGaugeStudy(gaugeStudy) : null;
   
     return `
       <!DOCTYPE html>
@@ -478,6 +628,17 @@ export default function AnalysisScreen() {
               border-radius: 6px;
               text-align: center;
             }
+            .signals, .exclusions, .stages, .intervals, .defects {
+              width: 100%;
+              border-collapse: collapse;
+            }
+            .signals th, .signals td, .exclusions th, .exclusions td, .stages th, .stages td,
+            .intervals th, .intervals td, .defects th, .defects td {
+              padding: 8px;
+              border-bottom: 1px solid #e2e8f0;
+              text-align: left;
+            }
+            .low-bound { color: #dc2626; font-weight: 600; }
             .ucl { background: #fee2e2; }
             .mean { background: #e0e7ff; }
             .lcl { background: #fee2e2; }
@@ -510,7 +671,21 @@ export default function AnalysisScreen() {
               </div>
               <div class="parameter">
                 <strong>Sample Size:</strong><br>
-                ${sampleSize}
+                ${controlCharts.sampleSize}
+              </div>
+              <div class="parameter">
+                <strong>Chart Type:</strong><br>
+                ${chartInfo.label}${controlCharts.movingRangeSpan ? ` (moving range span ${controlCharts.movingRangeSpan})` : ''}
+              </div>
+              <div class="parameter">
+                <strong>Specification:</strong><br>
+                ${specs.handling === 'percent-of-tolerance' ? `% of tolerance across ${specs.revisions.length} spec revision(s)`
+                  : metrics.lsl === null ? `USL ${metrics.usl} (upper only)`
+                  : metrics.usl === null ? `LSL ${metrics.lsl} (lower only)`
+                  : `${metrics.lsl} - ${metrics.usl}`}
+                ${specs.revision !== null && specs.revisions.length > 1
+                  ? `<br>Revision ${specs.revision + 1} of ${specs.revisions.length} only`
+                  : ''}
               </div>
             </div>
           </div>
@@ -523,33 +698,166 @@ export default function AnalysisScreen() {
                 <div class="metric-value">${metrics.xBar}</div>
               </div>
               <div class="metric-item">
-                <div class="metric-label">Standard Deviation (Overall)</div>
+                <div class="metric-label">Standard Deviation (Within, ${metrics.stdDevWithinBasis})</div>
+                <div class="metric-value">${metrics.stdDevWithin}</div>
+              </div>
+              <div class="metric-item">
+                <div class="metric-label">Standard Deviation (Overall, ${metrics.stdDevOverallBasis})</div>
                 <div class="metric-value">${metrics.stdDevOverall}</div>
               </div>
+              ${metrics.cp !== null ? `
               <div class="metric-item">
-                <div class="metric-label">Cp</div>
+                <div class="metric-label">Cp (σ within)</div>
                 <div class="metric-value">${metrics.cp}</div>
-              </div>
+              </div>` : ''}
               <div class="metric-item">
-                <div class="metric-label">Cpk</div>
+                <div class="metric-label">Cpk (σ within)</div>
                 <div class="metric-value">${metrics.cpk}</div>
               </div>
+              ${metrics.pp !== null ? `
               <div class="metric-item">
-                <div class="metric-label">Pp</div>
+                <div class="metric-label">Pp (σ overall)</div>
                 <div class="metric-value">${metrics.pp}</div>
-              </div>
+              </div>` : ''}
               <div class="metric-item">
-                <div class="metric-label">Ppk</div>
+                <div class="metric-label">Ppk (σ overall)</div>
                 <div class="metric-value">${metrics.ppk}</div>
               </div>
             </div>
           </div>
   
+          <div class="section">
+            <h2>Normality</h2>
+            <p>
+              Anderson-Darling: ${normality.andersonDarling
+                ? `A² = ${normality.andersonDarling.statistic.toFixed(4)}, p = ${formatPValue(normality.andersonDarling.pValue)}`
+                : 'not enough data'}
+            </p>
+            <p>
+              Shapiro-Wilk: ${normality.shapiroWilk
+                ? `W = ${normality.shapiroWilk.statistic.toFixed(4)}, p = ${formatPValue(normality.shapiroWilk.pValue)}`
+                : 'not enough data'}
+            </p>
+            <p>
+              ${normality.isNormal
+                ? `Normality not rejected at α = ${normality.alpha} (n = ${normality.n})`
+                : `<strong>Normality rejected at α = ${normality.alpha} (n = ${normality.n}).</strong>
+                   Cp, Cpk, Pp and Ppk assume normal data and may misstate the defect rate.`}
+            </p>
+          </div>
+
+          <div class="section">
+            <h2>Confidence Intervals (${Math.round(capabilityIntervals.level * 100)}%)</h2>
+            <table class="intervals">
+              <tr><th>Index</th><th>Estimate</th><th>Two-sided Interval</th><th>Lower Bound</th></tr>
+              ${([
+                ['Cp', capabilityIntervals.cp],
+                ['Cpk Upper', capabilityIntervals.cpu],
+                ['Cpk Lower', capabilityIntervals.cpl],
+                ['Cpk', capabilityIntervals.cpk],
+                ['Pp', capabilityIntervals.pp],
+                ['Ppu', capabilityIntervals.ppu],
+                ['Ppl', capabilityIntervals.ppl],
+                ['Ppk', capabilityIntervals.ppk]
+              ] as const).map(([label, ci]) => ci === null ? '' : `
+                <tr>
+                  <td>${label}</td>
+                  <td>${ci.estimate}</td>
+                  <td>${ci.lower} - ${ci.upper}</td>
+                  <td class="${ci.lowerBound < MIN_CAPABILITY_LOWER_BOUND ? 'low-bound' : ''}">${ci.lowerBound}</td>
+                </tr>
+              `).join('')}
+            </table>
+            <p>Red lower bounds are below ${MIN_CAPABILITY_LOWER_BOUND}.</p>
+          </div>
+
+          <div class="section">
+            <h2>Defect Rate (PPM)</h2>
+            <table class="defects">
+              <tr><th></th><th>Observed</th><th>Expected (within)</th><th>Expected (overall)</th></tr>
+              ${([['< LSL', 'belowLsl'], ['> USL', 'aboveUsl'], ['Total', 'total']] as [string, keyof PpmEstimate][])
+                .filter(([, key]) => defectRates.observed[key] !== null)
+                .map(([label, key]) => `
+                  <tr>
+                    <td>${label}</td>
+                    <td>${defectRates.observed[key]}</td>
+                    <td>${defectRates.expectedWithin[key]}</td>
+                    <td>${defectRates.expectedOverall[key]}</td>
+                  </tr>
+                `).join('')}
+              <tr>
+                <td>% out of spec</td>
+                <td>${(defectRates.observed.total / 1e4).toFixed(4)}%</td>
+                <td>${(defectRates.expectedWithin.total / 1e4).toFixed(4)}%</td>
+                <td>${(defectRates.expectedOverall.total / 1e4).toFixed(4)}%</td>
+              </tr>
+            </table>
+            <p>
+              Sigma level (Z.bench, overall): ${defectRates.sigmaLevel.toFixed(2)};
+              with the 1.5σ shift: ${defectRates.sigmaLevelShifted.toFixed(2)}
+            </p>
+          </div>
+
+          ${nonNormalCapability ? `
+            <div class="section">
+              <h2>Non-normal Capability</h2>
+              <p>${nonNormalCapability.description}: ${nonNormalCapability.parameters.map(p => `${p.label} = ${p.value}`).join(', ')}</p>
+              ${nonNormalCapability.warning ? `<p>${nonNormalCapability.warning}</p>` : ''}
+              <div class="metrics-grid">
+                ${[
+                  ...(nonNormalCapability.cp !== null ? [['Cp', nonNormalCapability.cp], ['Cpk', nonNormalCapability.cpk]] : []),
+                  ...(nonNormalCapability.pp !== null ? [['Pp', nonNormalCapability.pp]] : []),
+                  ['Ppk', nonNormalCapability.ppk]
+                ].map(([label, value]) => `
+                  <div class="metric-item">
+                    <div class="metric-label">${label}</div>
+                    <div class="metric-value">${value}</div>
+                  </div>
+                `).join('')}
+              </div>
+              ${nonNormalCapability.transformedNormality
+                ? `<p>Normality of the transformed readings: p = ${formatPValue(nonNormalCapability.transformedNormality.pValue)}</p>`
+                : ''}
+            </div>
+          ` : ''}
+
+          <div class="section">
+            <h2>Gauge R&amp;R (${analysisInput?.guageCode ?? ''})</h2>
+            ${gaugeStudy && gaugeResult ? `
+              <p>
+                ${GAUGE_RR_METHODS.find(m => m.value === gaugeResult.method)?.label},
+                ${gaugeResult.parts} parts × ${gaugeResult.operators} operators × ${gaugeResult.trials} trials,
+                studied ${format(new Date(gaugeStudy.conductedAt), 'PPP')} by ${gaugeStudy.conductedBy}
+              </p>
+              <div class="metrics-grid">
+                ${[
+                  ['%EV', `${gaugeResult.repeatability.percentStudyVariation.toFixed(2)}%`],
+                  ['%AV', `${gaugeResult.reproducibility.percentStudyVariation.toFixed(2)}%`],
+                  ['%GRR', `${gaugeResult.gaugeRR.percentStudyVariation.toFixed(2)}%`],
+                  ['%Tolerance', gaugeResult.gaugeRR.percentTolerance === null ? '—' : `${gaugeResult.gaugeRR.percentTolerance.toFixed(2)}%`],
+                  ['ndc', gaugeResult.ndc ?? '—'],
+                  ['Verdict', gaugeResult.verdict]
+                ].map(([label, value]) => `
+                  <div class="metric-item">
+                    <div class="metric-label">${label}</div>
+                    <div class="metric-value">${value}</div>
+                  </div>
+                `).join('')}
+              </div>
+            ` : '<p>No Gauge R&amp;R study has been saved for this gauge.</p>'}
+          </div>
+
           <div class="section">
             <h2>Control Charts</h2>
+            <p>
+              ${controlCharts.phase === 'II' && baseline
+                ? `Phase II: limits frozen on ${format(new Date(baseline.setAt), 'PPP p')} by ${baseline.setBy}
+                   (baseline ${format(new Date(baseline.periodStart), 'PPP')} - ${format(new Date(baseline.periodEnd), 'PPP')})`
+                : 'Phase I: limits calculated from the selected date range'}
+            </p>
             
             <div class="chart-container">
-              <div class="chart-title">X-Bar Chart</div>
+              <div class="chart-title">${chartInfo.centerTitle}</div>
               <div class="limits-container">
                 <div class="limit-box ucl">
                   <strong>UCL:</strong> ${controlCharts.limits.xBarUcl.toFixed(3)}
@@ -564,27 +872,99 @@ export default function AnalysisScreen() {
             </div>
   
             <div class="chart-container">
-              <div class="chart-title">Range Chart</div>
+              <div class="chart-title">${chartInfo.spreadTitle}</div>
               <div class="limits-container">
                 <div class="limit-box ucl">
-                  <strong>UCL:</strong> ${controlCharts.limits.rangeUcl.toFixed(3)}
+                  <strong>UCL:</strong> ${controlCharts.limits.spreadUcl.toFixed(3)}
                 </div>
                 <div class="limit-box mean">
-                  <strong>Mean:</strong> ${controlCharts.limits.rangeMean.toFixed(3)}
+                  <strong>${chartInfo.spreadSymbol}:</strong> ${controlCharts.limits.spreadMean.toFixed(3)}
                 </div>
                 <div class="limit-box lcl">
-                  <strong>LCL:</strong> ${controlCharts.limits.rangeLcl.toFixed(3)}
+                  <strong>LCL:</strong> ${controlCharts.limits.spreadLcl.toFixed(3)}
                 </div>
               </div>
             </div>
           </div>
   
+          ${analysisData.stages.length > 0 ? `
+            <div class="section">
+              <h2>Stages</h2>
+              <p>Staged by ${STAGE_BY_OPTIONS.find(o => o.value === stageBy)?.label.toLowerCase()}; each stage has its own limits and capability</p>
+              <table class="stages">
+                <tr>
+                  <th>Stage</th><th>Subgroups</th>
+                  <th>X̄ UCL</th><th>X̄</th><th>X̄ LCL</th>
+                  <th>${chartInfo.spreadSymbol}</th>
+                  <th>Cp</th><th>Cpk</th><th>Pp</th><th>Ppk</th>
+                </tr>
+                ${analysisData.stages.map(stage => `
+                  <tr>
+                    <td>${escapeHtml(stage.label)}${stage.merged.length > 0 ? ` + ${escapeHtml(stage.merged.join(', '))}` : ''}</td>
+                    <td>G${stage.start}-G${stage.end}</td>
+                    <td>${stage.limits.xBarUcl.toFixed(3)}</td>
+                    <td>${stage.limits.xBarMean.toFixed(3)}</td>
+                    <td>${stage.limits.xBarLcl.toFixed(3)}</td>
+                    <td>${stage.limits.spreadMean.toFixed(3)}</td>
+                    <td>${stage.cp ?? '—'}</td>
+                    <td>${stage.cpk}</td>
+                    <td>${stage.pp ?? '—'}</td>
+                    <td>${stage.ppk}</td>
+                  </tr>
+                `).join('')}
+              </table>
+              ${analysisData.stages.some(stage => stage.merged.length > 0)
+                ? `<p>Runs with fewer than ${MIN_STAGE_SUBGROUPS} subgroups share the limits of the stage they are listed with.</p>`
+                : ''}
+            </div>
+          ` : ''}
+
+          <div class="section">
+            <h2>Signals</h2>
+            <p>Enabled rules: ${enabledRules.length > 0 ? enabledRules.join(', ') : 'None'}</p>
+            ${signals.length === 0
+              ? '<p>No enabled rule is violated</p>'
+              : `<table class="signals">
+                  <tr><th>Subgroup</th><th>Chart</th><th>Date</th><th>Shift</th><th>Rules</th></tr>
+                  ${signals.map(signal => `
+                    <tr>
+                      <td>G${signal.subgroup}</td>
+                      <td>${signal.chart === 'center' ? chartInfo.centerTitle : chartInfo.spreadTitle}</td>
+                      <td>${format(new Date(signal.trnDate), 'dd/MM/yyyy HH:mm')}</td>
+                      <td>${signal.shifts.join(', ')}</td>
+                      <td>${signal.rules.join(', ')}</td>
+                    </tr>
+                  `).join('')}
+                </table>`}
+          </div>
+
+          <div class="section">
+            <h2>Excluded Points</h2>
+            ${controlCharts.exclusions.length === 0
+              ? '<p>All subgroups are included in the limits and capability</p>'
+              : `<p>Left out of the control limits, capability and histogram:</p>
+                <table class="exclusions">
+                  <tr><th>Subgroup</th><th>Date</th><th>Shift</th><th>Reason</th></tr>
+                  ${controlCharts.exclusions.map(exclusion => {
+                    const subgroup = analysisData.subgroups[exclusion.subgroup - 1];
+                    return `
+                      <tr>
+                        <td>G${exclusion.subgroup}</td>
+                        <td>${format(new Date(subgroup.samples[0].trnDate), 'dd/MM/yyyy HH:mm')}</td>
+                        <td>${getSubgroupShifts(subgroup).join(', ')}</td>
+                        <td>${escapeHtml(exclusion.reason)}</td>
+                      </tr>
+                    `;
+                  }).join('')}
+                </table>`}
+          </div>
+
           <div class="section">
             <h2>Process Interpretation</h2>
             <div class="interpretation">
-              <p><strong>Short-term Capability (Cp):</strong> ${metrics.cp >= 1.33 ? 'Process is capable' : 'Process needs improvement'}</p>
+              ${metrics.cp !== null ? `<p><strong>Short-term Capability (Cp):</strong> ${metrics.cp >= 1.33 ? 'Process is capable' : 'Process needs improvement'}</p>` : ''}
               <p><strong>Short-term Centered (Cpk):</strong> ${metrics.cpk >= 1.33 ? 'Process is centered' : 'Process centering needs improvement'}</p>
-              <p><strong>Long-term Performance (Pp):</strong> ${metrics.pp >= 1.33 ? 'Process is performing well' : 'Long-term performance needs improvement'}</p>
+              ${metrics.pp !== null ? `<p><strong>Long-term Performance (Pp):</strong> ${metrics.pp >= 1.33 ? 'Process is performing well' : 'Long-term performance needs improvement'}</p>` : ''}
               <p><strong>Long-term Centered (Ppk):</strong> ${metrics.ppk >= 1.33 ? 'Process is stable' : 'Long-term stability needs improvement'}</p>
             </div>
           </div>
@@ -664,18 +1044,165 @@ export default function AnalysisScreen() {
             <Text style={styles.sectionTitle}>Process Details</Text>
             
             <View style={styles.pickerContainer}>
-              <Text style={styles.label}>Sample Size</Text>
+              <Text style={styles.label}>Data Type</Text>
               <Picker
-                selectedValue={sampleSize}
-                onValueChange={(value) => setSampleSize(Number(value))}
+                selectedValue={dataMode}
+                onValueChange={(value) => setDataMode(value as 'variables' | 'attributes')}
                 style={styles.picker}
               >
-                {[1, 2, 3, 4, 5].map((size) => (
-                  <Picker.Item key={size} label={`${size}`} value={size} />
-                ))}
+                <Picker.Item label="Variables (measured readings)" value="variables" />
+                <Picker.Item label="Attributes (pass/fail against spec)" value="attributes" />
               </Picker>
             </View>
 
+            {dataMode === 'attributes' ? (
+              <>
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Attribute Chart</Text>
+                  <Picker
+                    selectedValue={attributeChartType}
+                    onValueChange={(value) => setAttributeChartType(value as AttributeChartType)}
+                    style={styles.picker}
+                  >
+                    {(Object.keys(ATTRIBUTE_CHART_TYPES) as AttributeChartType[]).map((type) => (
+                      <Picker.Item key={type} label={ATTRIBUTE_CHART_TYPES[type].title} value={type} />
+                    ))}
+                  </Picker>
+                  {ATTRIBUTE_CHART_TYPES[attributeChartType].minGroupSize > 1 && (
+                    <Text style={styles.hint}>
+                      Needs at least {ATTRIBUTE_CHART_TYPES[attributeChartType].minGroupSize} readings per group
+                    </Text>
+                  )}
+                  {ATTRIBUTE_CHART_TYPES[attributeChartType].note && (
+                    <Text style={styles.hint}>{ATTRIBUTE_CHART_TYPES[attributeChartType].note}</Text>
+                  )}
+                </View>
+
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Count Per</Text>
+                  <Picker
+                    selectedValue={attributeGrouping}
+                    onValueChange={(value) => setAttributeGrouping(value as AttributeGrouping)}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="Subgroup" value="subgroup" />
+                    <Picker.Item label="Day" value="day" />
+                  </Picker>
+                </View>
+
+                {attributeGrouping === 'subgroup' && (
+                  <View style={styles.pickerContainer}>
+                    <Text style={styles.label}>Subgroup Size</Text>
+                    <Picker
+                      selectedValue={sampleSize}
+                      onValueChange={(value) => setSampleSize(Number(value))}
+                      style={styles.picker}
+                    >
+                      {getSupportedSampleSizes(inspectionCount).map((size) => (
+                        <Picker.Item key={size} label={`${size}`} value={size} />
+                      ))}
+                    </Picker>
+                  </View>
+                )}
+              </>
+            ) : (
+              <>
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Sample Size</Text>
+                  <Picker
+                    selectedValue={sampleSize}
+                    onValueChange={(value) => setSampleSize(Number(value))}
+                    style={styles.picker}
+                  >
+                    {getSupportedSampleSizes(inspectionCount).map((size) => (
+                      <Picker.Item key={size} label={`${size}`} value={size} />
+                    ))}
+                  </Picker>
+                </View>
+
+                {effectiveChartType === 'i-mr' ? (
+                  <View style={styles.pickerContainer}>
+                    <Text style={styles.label}>Moving Range Span</Text>
+                    <Picker
+                      selectedValue={movingRangeSpan}
+                      onValueChange={(value) => setMovingRangeSpan(Number(value))}
+                      style={styles.picker}
+                    >
+                      {MOVING_RANGE_SPANS.map((span) => (
+                        <Picker.Item key={span} label={`${span}`} value={span} />
+                      ))}
+                    </Picker>
+                  </View>
+                ) : (
+                  <View style={styles.pickerContainer}>
+                    <Text style={styles.label}>Chart Type</Text>
+                    <Picker
+                      selectedValue={chartType}
+                      onValueChange={(value) => setChartType(value as ChartType)}
+                      style={styles.picker}
+                    >
+                      <Picker.Item label={CHART_TYPES['xbar-r'].label} value="xbar-r" />
+                      <Picker.Item label={`${CHART_TYPES['xbar-s'].label} (recommended for n ≥ 10)`} value="xbar-s" />
+                    </Picker>
+                  </View>
+                )}
+
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Stage By</Text>
+                  <Picker
+                    selectedValue={stageBy}
+                    onValueChange={(value) => handleStageByChange(value as StageBy)}
+                    style={styles.picker}
+                  >
+                    {STAGE_BY_OPTIONS.map((option) => (
+                      <Picker.Item key={option.value} label={option.label} value={option.value} />
+                    ))}
+                  </Picker>
+                  {stageBy === 'custom' && (
+                    <Text style={styles.hint}>Tap a point on the chart to start a new stage there</Text>
+                  )}
+                </View>
+
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Capability Method</Text>
+                  <Picker
+                    selectedValue={capabilityMethod}
+                    onValueChange={(value) => handleCapabilityMethodChange(value as CapabilityMethod)}
+                    style={styles.picker}
+                  >
+                    {CAPABILITY_METHODS.map((method) => (
+                      <Picker.Item key={method.value} label={method.label} value={method.value} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>Confidence Level</Text>
+                  <Picker
+                    selectedValue={confidenceLevel}
+                    onValueChange={(value) => handleConfidenceLevelChange(Number(value))}
+                    style={styles.picker}
+                  >
+                    {CONFIDENCE_LEVELS.map((level) => (
+                      <Picker.Item key={level} label={`${level * 100}%`} value={level} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <View style={styles.pickerContainer}>
+                  <Text style={styles.label}>View</Text>
+                  <Picker
+                    selectedValue={resultView}
+                    onValueChange={(value) => setResultView(value as 'detailed' | 'sixpack')}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="Detailed analysis" value="detailed" />
+                    <Picker.Item label="Capability sixpack" value="sixpack" />
+                  </Picker>
+                </View>
+              </>
+            )}
+
             <MultiSelect
               label="Shifts"
               options={shifts.map(s => ({ value: s.ShiftId, label: s.ShiftName }))}
@@ -738,6 +1265,13 @@ export default function AnalysisScreen() {
                 ))}
               </Picker>
             </View>
+
+            <MultiSelect
+              label="Control Chart Rules (plant setting)"
+              options={NELSON_RULES.map(r => ({ value: r.rule, label: `${r.rule}. ${r.description}` }))}
+              selectedValues={enabledRules}
+              onSelectionChange={handleRuleSelection}
+            />
           </View>
 
           <View style={styles.buttonContainer}>
@@ -747,10 +1281,10 @@ export default function AnalysisScreen() {
                 pressed && styles.buttonPressed,
                 loading && styles.buttonDisabled
               ]}
-              onPress={handleAnalyze}
+              onPress={() => handleAnalyze()}
               disabled={loading}
             >
-              {loading ? (
+              {loading && !dashboardProgress ? (
                 <ActivityIndicator color="#fff" />
               ) : (
                 <>
@@ -760,6 +1294,30 @@ export default function AnalysisScreen() {
               )}
             </Pressable>
 
+            <Pressable
+              style={({ pressed }) => [
+                styles.dashboardButton,
+                pressed && styles.buttonPressed,
+                loading && styles.buttonDisabled
+              ]}
+              onPress={handleAnalyzeAllGauges}
+              disabled={loading}
+            >
+              {dashboardProgress ? (
+                <>
+                  <ActivityIndicator color="#fff" />
+                  <Text style={styles.buttonText}>
+                    Analyzing gauge {Math.min(dashboardProgress.done + 1, dashboardProgress.total)} of {dashboardProgress.total}
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <LayoutGrid size={20} color="#fff" />
+                  <Text style={styles.buttonText}>Analyze All Gauges</Text>
+                </>
+              )}
+            </Pressable>
+
             {analysisData && (
               <Pressable
                 style={({ pressed }) => [
@@ -783,23 +1341,90 @@ export default function AnalysisScreen() {
           </View>
         </View>
 
+        {dashboardRows && dashboardMode === dataMode && (
+          <GaugeDashboard
+            key={dashboardMode}
+            mode={dashboardMode}
+            rows={dashboardRows}
+            selectedGauge={analysisInput?.guageCode}
+            onSelectGauge={handleSelectDashboardGauge}
+          />
+        )}
+
+        {attributeData && <AttributeChart analysis={attributeData} />}
+
         {analysisData && (
           <>
-            <ProcessMetrics metrics={analysisData.metrics} />
-            <ControlCharts 
-              {...analysisData.controlCharts} 
-              sampleSize={sampleSize}
-            />
-            <HistogramChart 
-              data={analysisData.distribution.data}
-              lsl={analysisData.metrics.lsl}
-              usl={analysisData.metrics.usl}
-              target={analysisData.distribution.stats.target}
-              numberOfBins={analysisData.distribution.numberOfBins}
-            />
-            <DistributionChart
-              {...analysisData.distribution}
-            />
+            {(analysisData.specs.revisions.length > 1 || analysisData.specs.handling === 'percent-of-tolerance') && (
+              <SpecRevisionNotice specs={analysisData.specs} onChange={handleSpecHandlingChange} />
+            )}
+            {resultView === 'sixpack' ? (
+              <CapabilitySixpack analysis={analysisData} signals={signals} />
+            ) : (
+              <>
+                <ProcessMetrics
+                  metrics={analysisData.metrics}
+                  chartType={analysisData.controlCharts.chartType}
+                  normality={analysisData.normality}
+                  nonNormalCapability={analysisData.nonNormalCapability}
+                  capabilityIntervals={analysisData.capabilityIntervals}
+                  defectRates={analysisData.defectRates}
+                />
+                <BaselinePanel
+                  phase={analysisData.controlCharts.phase}
+                  baseline={baseline}
+                  busy={savingBaseline}
+                  onSetBaseline={handleSetBaseline}
+                  onReleaseBaseline={handleReleaseBaseline}
+                />
+                {analysisInput && (
+                  <GaugeRRPanel
+                    guageCode={analysisInput.guageCode}
+                    guageName={gauges.find(g => g.GuageCode === analysisInput.guageCode)?.GuageName}
+                    study={gaugeStudy}
+                    onOpenStudy={handleOpenGaugeStudy}
+                  />
+                )}
+                <ControlCharts
+                  {...analysisData.controlCharts}
+                  signals={signals}
+                  stages={analysisData.stages}
+                  stageBreaks={analysisInput?.options.stageBreaks}
+                  onToggleStageBreak={stageBy === 'custom' ? handleToggleStageBreak : undefined}
+                  onExcludePoint={handleExcludePoint}
+                  onRestorePoint={handleRestorePoint}
+                  subgroups={analysisData.subgroups}
+                />
+                <CusumChart analysis={analysisData} />
+                <EwmaChart analysis={analysisData} />
+                <SignalsList signals={signals} chartType={analysisData.controlCharts.chartType} />
+                {analysisData.stages.length > 0 && <StageCapability stages={analysisData.stages} />}
+                <HistogramChart
+                  data={analysisData.distribution.data}
+                  lsl={analysisData.metrics.lsl}
+                  usl={analysisData.metrics.usl}
+                  target={analysisData.distribution.stats.target}
+                  numberOfBins={analysisData.distribution.numberOfBins}
+                  stats={analysisData.distribution.stats}
+                  normalCurves={{
+                    mean: analysisData.metrics.xBar,
+                    stdDevWithin: analysisData.metrics.stdDevWithin,
+                    stdDevOverall: analysisData.metrics.stdDevOverall
+                  }}
+                  binning={analysisData.distribution.binning}
+                  onBinningChange={handleHistogramOptionsChange}
+                />
+                <DistributionChart
+                  {...analysisData.distribution}
+                  lsl={analysisData.metrics.lsl}
+                  usl={analysisData.metrics.usl}
+                />
+                <NormalProbabilityPlot
+                  values={analysisData.distribution.values}
+                  normality={analysisData.normality}
+                />
+              </>
+            )}
           </>
         )}
       </View>
@@ -870,6 +1495,11 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 6,
   },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
   picker: {
     backgroundColor: '#fff',
     borderRadius: 8,
@@ -888,6 +1518,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  dashboardButton: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    padding: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   downloadButton: {
     backgroundColor: '#059669',
     borderRadius: 8,
@@ -0,0 +1,513 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  Pressable,
+  ActivityIndicator
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { Picker } from '@react-native-picker/picker';
+import { Calculator, Save, Upload } from 'lucide-react-native';
+import {
+  analyzeGaugeStudy,
+  GAUGE_RR_METHODS,
+  GaugeRRMethod,
+  GaugeRRResult,
+  GaugeStudy,
+  MAX_GAUGE_PARTS,
+  MAX_GAUGE_TRIALS,
+  parseGaugeStudyCsv,
+  SpcAnalysisError
+} from '../lib/spc';
+import { loadGaugeStudy, saveGaugeStudy } from '../lib/gaugeStudyStore';
+import { GaugeRRResults } from '../components/GaugeRRResults';
+
+// Launched from the analysis screen for the selected gauge, with the spec
+// limits of the analyzed revision
+type GaugeRRParams = {
+  materialCode: string;
+  operationCode: string;
+  guageCode: string;
+  guageName?: string;
+  lsl?: string;
+  usl?: string;
+};
+
+const PART_COUNTS = Array.from({ length: MAX_GAUGE_PARTS - 1 }, (_, i) => i + 2);
+const TRIAL_COUNTS = Array.from({ length: MAX_GAUGE_TRIALS - 1 }, (_, i) => i + 2);
+const DEFAULT_OPERATORS = 'A, B, C';
+
+const parseLimit = (value?: string) => {
+  const parsed = parseFloat(value ?? '');
+  return isNaN(parsed) ? null : parsed;
+};
+
+const parseOperators = (text: string) =>
+  text.split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+// Keeps what was already entered when the study is resized
+const resizeReadings = (readings: string[][][], operators: number, parts: number, trials: number) =>
+  Array.from({ length: operators }, (_, o) =>
+    Array.from({ length: parts }, (_, p) =>
+      Array.from({ length: trials }, (_, t) => readings[o]?.[p]?.[t] ?? '')
+    )
+  );
+
+export default function GaugeRRScreen() {
+  const params = useLocalSearchParams<GaugeRRParams>();
+  const lsl = parseLimit(params.lsl);
+  const usl = parseLimit(params.usl);
+
+  const [operatorText, setOperatorText] = useState(DEFAULT_OPERATORS);
+  const [parts, setParts] = useState(10);
+  const [trials, setTrials] = useState(3);
+  const [method, setMethod] = useState<GaugeRRMethod>('anova');
+  const [readings, setReadings] = useState<string[][][]>(() =>
+    resizeReadings([], parseOperators(DEFAULT_OPERATORS).length, 10, 3)
+  );
+  const [importText, setImportText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [conductedBy, setConductedBy] = useState('');
+  const [result, setResult] = useState<GaugeRRResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  const operators = parseOperators(operatorText);
+
+  useEffect(() => {
+    loadGaugeStudy(params.materialCode, params.operationCode, params.guageCode)
+      .then(study => {
+        if (!study) return;
+        setOperatorText(study.operators.join(', '));
+        setParts(study.parts);
+        setTrials(study.trials);
+        setMethod(study.method);
+        setReadings(study.measurements.map(byPart => byPart.map(r => r.map(String))));
+        setConductedBy(study.conductedBy);
+        setSavedAt(study.conductedAt);
+        setResult(analyzeGaugeStudy({ ...study, lsl, usl }));
+      })
+      .catch(error => {
+        console.error('Error loading gauge study:', error);
+        setError(error instanceof SpcAnalysisError ? error.message : 'Error loading the saved study');
+      });
+  }, [params.materialCode, params.operationCode, params.guageCode]);
+
+  useEffect(() => {
+    setReadings(current => resizeReadings(current, operators.length, parts, trials));
+  }, [operators.length, parts, trials]);
+
+  const buildStudy = (): GaugeStudy => ({
+    materialCode: params.materialCode,
+    operationCode: params.operationCode,
+    guageCode: params.guageCode,
+    guageName: params.guageName ?? '',
+    lsl,
+    usl,
+    operators,
+    parts,
+    trials,
+    measurements: readings.map(byPart => byPart.map(r => r.map(value => parseFloat(value)))),
+    method,
+    conductedAt: new Date().toISOString(),
+    conductedBy: conductedBy.trim()
+  });
+
+  const calculate = (nextMethod: GaugeRRMethod = method) => {
+    try {
+      setResult(analyzeGaugeStudy(buildStudy(), nextMethod));
+      setError(null);
+    } catch (error) {
+      setResult(null);
+      setError(error instanceof SpcAnalysisError ? error.message : 'Error analyzing the study');
+    }
+  };
+
+  const handleMethodChange = (value: GaugeRRMethod) => {
+    setMethod(value);
+    if (result) calculate(value);
+  };
+
+  const handleReadingChange = (o: number, p: number, t: number, value: string) => {
+    setReadings(current => current.map((byPart, oi) => oi !== o ? byPart : byPart.map((r, pi) =>
+      pi !== p ? r : r.map((v, ti) => (ti === t ? value : v))
+    )));
+  };
+
+  const handleImport = () => {
+    try {
+      const imported = parseGaugeStudyCsv(importText);
+      setOperatorText(imported.operators.join(', '));
+      setParts(imported.parts);
+      setTrials(imported.trials);
+      setReadings(imported.measurements.map(byPart => byPart.map(r => r.map(String))));
+      setShowImport(false);
+      setImportText('');
+      setResult(null);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof SpcAnalysisError ? error.message : 'Error importing readings');
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const study = buildStudy();
+      const studyResult = analyzeGaugeStudy(study);
+      await saveGaugeStudy(study);
+      setResult(studyResult);
+      setSavedAt(study.conductedAt);
+      setError(null);
+    } catch (error) {
+      console.error('Error saving gauge study:', error);
+      setError(error instanceof SpcAnalysisError ? error.message : 'Error saving the study');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = conductedBy.trim().length > 0 && !saving;
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: true, title: 'Gauge R&R Study' }} />
+      <ScrollView style={styles.container}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{params.guageName || params.guageCode}</Text>
+            <Text style={styles.subtitle}>
+              {params.guageCode} · {params.materialCode} / {params.operationCode}
+            </Text>
+            <Text style={styles.subtitle}>
+              LSL {lsl ?? 'none'} · USL {usl ?? 'none'}
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+
+            <View style={styles.pickerContainer}>
+              <Text style={styles.label}>Method</Text>
+              <Picker
+                selectedValue={method}
+                onValueChange={(value) => handleMethodChange(value as GaugeRRMethod)}
+                style={styles.picker}
+              >
+                {GAUGE_RR_METHODS.map(m => (
+                  <Picker.Item key={m.value} label={m.label} value={m.value} />
+                ))}
+              </Picker>
+            </View>
+
+            <View style={styles.pickerContainer}>
+              <Text style={styles.label}>Operators (comma separated)</Text>
+              <TextInput style={styles.input} value={operatorText} onChangeText={setOperatorText} />
+            </View>
+
+            <View style={styles.row}>
+              <View style={[styles.pickerContainer, styles.half]}>
+                <Text style={styles.label}>Parts</Text>
+                <Picker
+                  selectedValue={parts}
+                  onValueChange={(value) => setParts(Number(value))}
+                  style={styles.picker}
+                >
+                  {PART_COUNTS.map(n => <Picker.Item key={n} label={String(n)} value={n} />)}
+                </Picker>
+              </View>
+              <View style={[styles.pickerContainer, styles.half]}>
+                <Text style={styles.label}>Trials</Text>
+                <Picker
+                  selectedValue={trials}
+                  onValueChange={(value) => setTrials(Number(value))}
+                  style={styles.picker}
+                >
+                  {TRIAL_COUNTS.map(n => <Picker.Item key={n} label={String(n)} value={n} />)}
+                </Picker>
+              </View>
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+              onPress={() => setShowImport(!showImport)}
+            >
+              <Upload size={16} color="#374151" />
+              <Text style={styles.secondaryButtonText}>Import Readings</Text>
+            </Pressable>
+
+            {showImport && (
+              <View style={styles.importBox}>
+                <Text style={styles.hint}>
+                  Paste one "operator, part, value" row per reading. Repeat rows for the same
+                  operator and part are taken as trials in order.
+                </Text>
+                <TextInput
+                  style={[styles.input, styles.importInput]}
+                  value={importText}
+                  onChangeText={setImportText}
+                  multiline
+                  placeholder={'A,1,10.02\nA,1,10.01\nB,1,10.03'}
+                />
+                <Pressable
+                  style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+                  onPress={handleImport}
+                >
+                  <Text style={styles.buttonText}>Import</Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+
+          {operators.map((name, o) => (
+            <View key={`${name}-${o}`} style={styles.card}>
+              <Text style={styles.cardTitle}>Operator {name}</Text>
+              <View style={styles.gridRow}>
+                <Text style={[styles.gridCell, styles.gridHeader, styles.partCell]}>Part</Text>
+                {Array.from({ length: trials }, (_, t) => (
+                  <Text key={t} style={[styles.gridCell, styles.gridHeader]}>Trial {t + 1}</Text>
+                ))}
+              </View>
+              {Array.from({ length: parts }, (_, p) => (
+                <View key={p} style={styles.gridRow}>
+                  <Text style={[styles.gridCell, styles.partCell]}>{p + 1}</Text>
+                  {Array.from({ length: trials }, (_, t) => (
+                    <TextInput
+                      key={t}
+                      style={[styles.gridCell, styles.gridInput]}
+                      value={readings[o]?.[p]?.[t] ?? ''}
+                      onChangeText={(value) => handleReadingChange(o, p, t, value)}
+                      keyboardType="decimal-pad"
+                    />
+                  ))}
+                </View>
+              ))}
+            </View>
+          ))}
+
+          <View style={[styles.card, styles.buttonContainer]}>
+            <Pressable
+              style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+              onPress={() => calculate()}
+            >
+              <Calculator size={18} color="#fff" />
+              <Text style={styles.buttonText}>Calculate</Text>
+            </Pressable>
+
+            <TextInput
+              style={styles.input}
+              placeholder="Your name"
+              value={conductedBy}
+              onChangeText={setConductedBy}
+            />
+            <Pressable
+              style={({ pressed }) => [
+                styles.saveButton,
+                pressed && styles.buttonPressed,
+                !canSave && styles.buttonDisabled
+              ]}
+              onPress={handleSave}
+              disabled={!canSave}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Save size={18} color="#fff" />
+                  <Text style={styles.buttonText}>Save Study for {params.guageCode}</Text>
+                </>
+              )}
+            </Pressable>
+            {savedAt && (
+              <Text style={styles.hint}>
+                The saved study replaces the previous one for this gauge. Last saved {new Date(savedAt).toLocaleString()}.
+              </Text>
+            )}
+          </View>
+
+          {result && <GaugeRRResults result={result} />}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  half: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  picker: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    height: 48,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    fontSize: 14,
+  },
+  importBox: {
+    marginTop: 12,
+    gap: 8,
+  },
+  importInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+  },
+  gridRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  gridCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  gridHeader: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  partCell: {
+    flex: 0,
+    width: 40,
+  },
+  gridInput: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    textAlign: 'right',
+  },
+  buttonContainer: {
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    padding: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButtonText: {
+    color: '#374151',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  errorContainer: {
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#DC2626',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,161 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel } from 'victory-native';
+import { format } from 'date-fns';
+import { ATTRIBUTE_CHART_TYPES, AttributeAnalysis } from '../lib/spc';
+
+interface AttributeChartProps {
+  analysis: AttributeAnalysis;
+}
+
+export function AttributeChart({ analysis }: AttributeChartProps) {
+  const info = ATTRIBUTE_CHART_TYPES[analysis.chartType];
+  const screenWidth = Dimensions.get('window').width;
+  const chartWidth = Math.max(screenWidth - 40, analysis.points.length * 40);
+  const outOfControl = analysis.points.filter(p => p.outOfControl);
+  const decimals = analysis.chartType === 'p' || analysis.chartType === 'u' ? 4 : 2;
+
+  const yValues = analysis.points.flatMap(p => [p.y, p.ucl, p.lcl]);
+  const yMin = Math.min(...yValues);
+  const yMax = Math.max(...yValues);
+  const yPadding = (yMax - yMin) * 0.1 || 1;
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' },
+    axisLabel: { fontSize: 14, padding: 35, fill: '#111827' }
+  };
+
+  // Limits that change with the group size are drawn as steps
+  const limitLine = (key: 'ucl' | 'lcl') => (
+    <VictoryLine
+      data={analysis.points.map(p => ({ x: p.x, y: p[key] }))}
+      interpolation={analysis.variableLimits ? 'stepAfter' : 'linear'}
+      style={{ data: { stroke: '#3B82F6', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{info.title}</Text>
+      <Text style={styles.formula}>
+        Nonconforming = reading outside its LSL/USL, counted per {analysis.grouping === 'day' ? 'day' : 'subgroup'}
+        {analysis.variableLimits ? ' (limits vary with the number inspected)' : ''}
+      </Text>
+      {info.note && <Text style={styles.note}>{info.note}</Text>}
+
+      <View style={styles.statsRow}>
+        <Text style={styles.stat}>Inspected = {analysis.totalInspected}</Text>
+        <Text style={styles.stat}>Nonconforming = {analysis.totalNonconforming}</Text>
+        <Text style={styles.stat}>Center = {analysis.center.toFixed(decimals)}</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <VictoryChart
+          width={chartWidth}
+          height={300}
+          padding={{ top: 40, bottom: 50, left: 60, right: 30 }}
+          domain={{ y: [Math.max(yMin - yPadding, 0), yMax + yPadding] }}
+        >
+          <VictoryAxis
+            tickFormat={(t) => analysis.grouping === 'day' ? analysis.points[t - 1]?.label.slice(0, 5) ?? '' : `G${t}`}
+            style={axisStyle}
+            label={analysis.grouping === 'day' ? 'Day' : 'Subgroups'}
+            axisLabelComponent={<VictoryLabel dy={35} />}
+          />
+          <VictoryAxis
+            dependentAxis
+            style={axisStyle}
+            label={info.axisLabel}
+            axisLabelComponent={<VictoryLabel dy={-45} />}
+          />
+
+          {limitLine('ucl')}
+          <VictoryLine
+            y={() => analysis.center}
+            style={{ data: { stroke: '#10B981', strokeWidth: 1.5 } }}
+          />
+          {limitLine('lcl')}
+
+          <VictoryLine data={analysis.points} style={{ data: { stroke: '#EF4444', strokeWidth: 2 } }} />
+          <VictoryScatter
+            data={analysis.points}
+            size={({ datum }) => (datum.outOfControl ? 7 : 4)}
+            style={{
+              data: {
+                fill: ({ datum }) => (datum.outOfControl ? '#F59E0B' : '#EF4444'),
+                stroke: '#fff',
+                strokeWidth: 1
+              }
+            }}
+          />
+        </VictoryChart>
+      </ScrollView>
+
+      {outOfControl.length === 0 ? (
+        <Text style={styles.noAlarm}>All groups are within the control limits</Text>
+      ) : (
+        outOfControl.map(point => (
+          <Text key={point.x} style={styles.alarm}>
+            {point.label} ({format(new Date(point.trnDate), 'dd/MM/yyyy')}): {point.nonconforming} of {point.inspected}
+            {' '}nonconforming, {point.y > point.ucl ? 'above UCL' : 'below LCL'}
+          </Text>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  note: {
+    fontSize: 12,
+    color: '#B45309',
+    marginBottom: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stat: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  noAlarm: {
+    fontSize: 14,
+    color: '#16A34A',
+    marginTop: 8,
+  },
+  alarm: {
+    fontSize: 14,
+    color: '#B45309',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, TextInput, ActivityIndicator } from 'react-native';
+import { Lock, RefreshCw, Unlock } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { CHART_TYPES, ControlLimitBaseline, LimitPhase } from '../lib/spc';
+
+interface BaselinePanelProps {
+  phase: LimitPhase;
+  baseline: ControlLimitBaseline | null;
+  busy?: boolean;
+  onSetBaseline: (setBy: string) => void;
+  onReleaseBaseline: () => void;
+}
+
+const formatDate = (iso: string) => format(new Date(iso), 'dd/MM/yyyy');
+
+export function BaselinePanel({ phase, baseline, busy, onSetBaseline, onReleaseBaseline }: BaselinePanelProps) {
+  const [setBy, setSetBy] = useState('');
+  const canSet = setBy.trim().length > 0 && !busy;
+
+  const describeBaseline = (b: ControlLimitBaseline) =>
+    `${CHART_TYPES[b.chartType].label}, ` +
+    (b.chartType === 'i-mr' ? `moving range span ${b.movingRangeSpan ?? 2}` : `n=${b.sampleSize}`) +
+    `, baseline ${formatDate(b.periodStart)} – ${formatDate(b.periodEnd)}`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {phase === 'II' ? <Lock size={18} color="#1D4ED8" /> : <Unlock size={18} color="#6B7280" />}
+        <Text style={styles.title}>
+          {phase === 'II' ? 'Phase II · Frozen Limits' : 'Phase I · Calculated Limits'}
+        </Text>
+      </View>
+
+      {phase === 'II' && baseline ? (
+        <>
+          <Text style={styles.text}>
+            Set on {format(new Date(baseline.setAt), 'dd/MM/yyyy HH:mm')} by {baseline.setBy}
+          </Text>
+          <Text style={styles.subText}>{describeBaseline(baseline)}</Text>
+        </>
+      ) : (
+        <>
+          <Text style={styles.text}>Limits are calculated from the selected date range.</Text>
+          {baseline && (
+            <Text style={styles.warning}>
+              A baseline set by {baseline.setBy} exists for different chart settings
+              ({describeBaseline(baseline)}).
+            </Text>
+          )}
+        </>
+      )}
+
+      <TextInput
+        style={styles.input}
+        placeholder="Your name"
+        value={setBy}
+        onChangeText={setSetBy}
+      />
+
+      <View style={styles.buttonRow}>
+        <Pressable
+          style={({ pressed }) => [
+            styles.button,
+            styles.primaryButton,
+            pressed && styles.buttonPressed,
+            !canSet && styles.buttonDisabled
+          ]}
+          onPress={() => onSetBaseline(setBy.trim())}
+          disabled={!canSet}
+        >
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              {baseline ? <RefreshCw size={16} color="#fff" /> : <Lock size={16} color="#fff" />}
+              <Text style={styles.buttonText}>
+                {baseline ? 'Recalculate Limits' : 'Freeze as Baseline'}
+              </Text>
+            </>
+          )}
+        </Pressable>
+
+        {baseline && (
+          <Pressable
+            style={({ pressed }) => [
+              styles.button,
+              styles.secondaryButton,
+              pressed && styles.buttonPressed,
+              busy && styles.buttonDisabled
+            ]}
+            onPress={onReleaseBaseline}
+            disabled={busy}
+          >
+            <Unlock size={16} color="#374151" />
+            <Text style={[styles.buttonText, styles.secondaryButtonText]}>Release Baseline</Text>
+          </Pressable>
+        )}
+      </View>
+      {baseline && (
+        <Text style={styles.hint}>
+          Recalculating replaces the baseline with limits from the selected date range.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  text: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  subText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  warning: {
+    fontSize: 13,
+    color: '#B45309',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    fontSize: 14,
+    marginVertical: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+  },
+  secondaryButton: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  secondaryButtonText: {
+    color: '#374151',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
+import {
+  CapabilityHeatMap as HeatMap,
+  HEAT_MAP_LAYOUTS,
+  heatMapCellKey,
+  MIN_CAPABILITY_LOWER_BOUND
+} from '../lib/spc';
+
+interface CapabilityHeatMapProps {
+  heatMap: HeatMap;
+}
+
+const CELL_WIDTH = 72;
+const ROW_LABEL_WIDTH = 120;
+
+const BANDS = [
+  { label: '≥ 1.67', min: 1.67, color: '#15803D' },
+  { label: `${MIN_CAPABILITY_LOWER_BOUND} – 1.67`, min: MIN_CAPABILITY_LOWER_BOUND, color: '#4ADE80' },
+  { label: `1.00 – ${MIN_CAPABILITY_LOWER_BOUND}`, min: 1, color: '#FBBF24' },
+  { label: '< 1.00', min: -Infinity, color: '#DC2626' }
+];
+
+const NO_DATA_COLOR = '#E5E7EB';
+
+const cellColor = (cpk: number | null) =>
+  cpk === null ? NO_DATA_COLOR : BANDS.find(band => cpk >= band.min)?.color ?? NO_DATA_COLOR;
+
+// Light text on the dark green and red bands
+const textColor = (cpk: number | null) =>
+  cpk !== null && (cpk >= 1.67 || cpk < 1) ? '#fff' : '#111827';
+
+export function CapabilityHeatMap({ heatMap }: CapabilityHeatMapProps) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const { rows, columns, cells } = heatMap;
+  const selectedCell = selected ? cells[selected] : undefined;
+  const layoutLabel = HEAT_MAP_LAYOUTS.find(l => l.value === heatMap.layout)?.label;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Worst Cpk · {layoutLabel}</Text>
+
+      <View style={styles.legend}>
+        {BANDS.map(band => (
+          <View key={band.label} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: band.color }]} />
+            <Text style={styles.legendText}>{band.label}</Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: NO_DATA_COLOR }]} />
+          <Text style={styles.legendText}>No result</Text>
+        </View>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={styles.row}>
+            <View style={{ width: ROW_LABEL_WIDTH }} />
+            {columns.map(column => (
+              <Text key={column.key} style={styles.columnLabel} numberOfLines={2}>{column.label}</Text>
+            ))}
+          </View>
+
+          {rows.map(row => (
+            <View key={row.key} style={styles.row}>
+              <Text style={styles.rowLabel} numberOfLines={2}>{row.label}</Text>
+              {columns.map(column => {
+                const key = heatMapCellKey(row.key, column.key);
+                const cell = cells[key];
+                if (!cell) {
+                  return <View key={column.key} style={[styles.cell, styles.emptyCell]} />;
+                }
+                return (
+                  <Pressable
+                    key={column.key}
+                    style={[
+                      styles.cell,
+                      { backgroundColor: cellColor(cell.worstCpk) },
+                      selected === key && styles.selectedCell
+                    ]}
+                    onPress={() => setSelected(selected === key ? null : key)}
+                  >
+                    <Text style={[styles.cellText, { color: textColor(cell.worstCpk) }]}>
+                      {cell.worstCpk?.toFixed(2) ?? '—'}
+                    </Text>
+                    {cell.failed > 0 && (
+                      <Text style={[styles.cellNote, { color: textColor(cell.worstCpk) }]}>
+                        {cell.failed} failed
+                      </Text>
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {selectedCell ? (
+        <View style={styles.detail}>
+          <Text style={styles.detailTitle}>
+            {selectedCell.characteristics[0].materialName || selectedCell.characteristics[0].materialCode}
+            {' / '}
+            {selectedCell.characteristics[0].operationName || selectedCell.characteristics[0].operationCode}
+          </Text>
+          {[...selectedCell.characteristics]
+            .sort((a, b) => (a.cpk ?? Infinity) - (b.cpk ?? Infinity))
+            .map(c => (
+              <View key={`${c.operationCode}-${c.guageCode}`} style={styles.detailRow}>
+                <Text style={styles.detailName} numberOfLines={1}>
+                  {c.guageName || c.guageCode} ({c.guageCode})
+                </Text>
+                {c.error !== null ? (
+                  <Text style={styles.detailError} numberOfLines={2}>{c.error}</Text>
+                ) : (
+                  <Text style={[styles.detailValue, { color: c.cpk !== null && c.cpk < MIN_CAPABILITY_LOWER_BOUND ? '#DC2626' : '#16A34A' }]}>
+                    Cpk {c.cpk?.toFixed(2) ?? '—'} · n={c.readings}
+                  </Text>
+                )}
+              </View>
+            ))}
+        </View>
+      ) : (
+        <Text style={styles.hint}>Tap a cell to list its characteristics.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  columnLabel: {
+    width: CELL_WIDTH,
+    marginRight: 4,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#374151',
+    textAlign: 'center',
+  },
+  rowLabel: {
+    width: ROW_LABEL_WIDTH,
+    paddingRight: 8,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  cell: {
+    width: CELL_WIDTH,
+    height: 44,
+    marginRight: 4,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyCell: {
+    borderWidth: 1,
+    borderColor: '#F3F4F6',
+  },
+  selectedCell: {
+    borderWidth: 2,
+    borderColor: '#1D4ED8',
+  },
+  cellText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  cellNote: {
+    fontSize: 10,
+  },
+  detail: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  detailTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+    gap: 8,
+  },
+  detailName: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  detailValue: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  detailError: {
+    flex: 1,
+    fontSize: 12,
+    color: '#DC2626',
+    textAlign: 'right',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis } from 'victory-native';
+import { CapabilityIntervals, DefectRates, MIN_CAPABILITY_LOWER_BOUND, SpcMetrics } from '../lib/spc';
+
+interface CapabilityPlotProps {
+  metrics: SpcMetrics;
+  capabilityIntervals: CapabilityIntervals;
+  defectRates: DefectRates;
+}
+
+const WITHIN_ROW = 2;
+const OVERALL_ROW = 1;
+
+// The ±3σ process spread, within and overall, against the spec limits
+export function CapabilityPlot({ metrics, capabilityIntervals, defectRates }: CapabilityPlotProps) {
+  const chartWidth = Dimensions.get('window').width - 40;
+  const { xBar, stdDevWithin, stdDevOverall, lsl, usl } = metrics;
+
+  const spread = (stdDev: number, y: number) => [
+    { x: xBar - 3 * stdDev, y },
+    { x: xBar + 3 * stdDev, y }
+  ];
+  const specLine = (x: number) => [
+    { x, y: OVERALL_ROW - 0.5 },
+    { x, y: WITHIN_ROW + 0.5 }
+  ];
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' }
+  };
+
+  const level = `${Math.round(capabilityIntervals.level * 100)}%`;
+  const indices = [
+    { label: 'Cp', value: metrics.cp, lowerBound: capabilityIntervals.cp?.lowerBound },
+    { label: 'Cpk', value: metrics.cpk, lowerBound: capabilityIntervals.cpk.lowerBound },
+    { label: 'Pp', value: metrics.pp, lowerBound: capabilityIntervals.pp?.lowerBound },
+    { label: 'Ppk', value: metrics.ppk, lowerBound: capabilityIntervals.ppk.lowerBound }
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Capability Plot</Text>
+      <Text style={styles.formula}>X̄ ± 3σ within and overall against the spec limits</Text>
+
+      <VictoryChart
+        width={chartWidth}
+        height={180}
+        padding={{ top: 20, bottom: 40, left: 70, right: 20 }}
+        domain={{ y: [OVERALL_ROW - 0.5, WITHIN_ROW + 0.5] }}
+      >
+        <VictoryAxis style={axisStyle} />
+        <VictoryAxis
+          dependentAxis
+          tickValues={[OVERALL_ROW, WITHIN_ROW]}
+          tickFormat={(t) => (t === WITHIN_ROW ? 'Within' : 'Overall')}
+          style={axisStyle}
+        />
+        {lsl !== null && (
+          <VictoryLine data={specLine(lsl)} style={{ data: { stroke: '#EF4444', strokeWidth: 2, strokeDasharray: '5,5' } }} />
+        )}
+        {usl !== null && (
+          <VictoryLine data={specLine(usl)} style={{ data: { stroke: '#EF4444', strokeWidth: 2, strokeDasharray: '5,5' } }} />
+        )}
+        <VictoryLine data={spread(stdDevWithin, WITHIN_ROW)} style={{ data: { stroke: '#7C3AED', strokeWidth: 4 } }} />
+        <VictoryLine data={spread(stdDevOverall, OVERALL_ROW)} style={{ data: { stroke: '#111827', strokeWidth: 4 } }} />
+        <VictoryScatter
+          data={[{ x: xBar, y: WITHIN_ROW }, { x: xBar, y: OVERALL_ROW }]}
+          size={5}
+          style={{ data: { fill: '#10B981', stroke: '#fff', strokeWidth: 1 } }}
+        />
+      </VictoryChart>
+
+      <View style={styles.statsContainer}>
+        {indices.filter(index => index.value !== null).map(index => (
+          <View key={index.label} style={styles.statBox}>
+            <Text style={styles.statLabel}>{index.label}</Text>
+            <Text style={styles.statValue}>{index.value}</Text>
+            {index.lowerBound !== undefined && (
+              <Text
+                style={[
+                  styles.lowerBound,
+                  { color: index.lowerBound < MIN_CAPABILITY_LOWER_BOUND ? '#DC2626' : '#16A34A' }
+                ]}
+              >
+                {level} LB {index.lowerBound}
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.statsContainer}>
+        <View style={styles.statBox}>
+          <Text style={styles.statLabel}>PPM (overall)</Text>
+          <Text style={styles.statValue}>{defectRates.expectedOverall.total.toFixed(1)}</Text>
+        </View>
+        <View style={styles.statBox}>
+          <Text style={styles.statLabel}>PPM (observed)</Text>
+          <Text style={styles.statValue}>{defectRates.observed.total.toFixed(1)}</Text>
+        </View>
+        <View style={styles.statBox}>
+          <Text style={styles.statLabel}>Sigma Level</Text>
+          <Text style={styles.statValue}>{defectRates.sigmaLevel.toFixed(2)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    gap: 8,
+  },
+  statBox: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  lowerBound: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CHART_TYPES, ChartSignal, SpcAnalysis } from '../lib/spc';
+import { ControlCharts } from './ControlCharts';
+import { LastSubgroupsPlot } from './LastSubgroupsPlot';
+import { HistogramChart } from './HistogramChart';
+import { NormalProbabilityPlot } from './NormalProbabilityPlot';
+import { CapabilityPlot } from './CapabilityPlot';
+
+interface CapabilitySixpackProps {
+  analysis: SpcAnalysis;
+  signals: ChartSignal[];
+}
+
+// The one-page capability summary: control charts, recent readings,
+// capability histogram, probability plot and capability plot
+export function CapabilitySixpack({ analysis, signals }: CapabilitySixpackProps) {
+  const { controlCharts, metrics, distribution } = analysis;
+  const chartInfo = CHART_TYPES[controlCharts.chartType];
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>Process Capability Sixpack</Text>
+        <Text style={styles.subtitle}>
+          {chartInfo.centerTitle} and {chartInfo.spreadTitle}, {distribution.values.length} readings
+        </Text>
+      </View>
+
+      <ControlCharts
+        {...controlCharts}
+        signals={signals}
+        stages={analysis.stages}
+        subgroups={analysis.subgroups}
+      />
+      <LastSubgroupsPlot subgroups={analysis.subgroups} />
+      <HistogramChart
+        data={distribution.data}
+        lsl={metrics.lsl}
+        usl={metrics.usl}
+        target={distribution.stats.target}
+        numberOfBins={distribution.numberOfBins}
+        stats={distribution.stats}
+        normalCurves={{
+          mean: metrics.xBar,
+          stdDevWithin: metrics.stdDevWithin,
+          stdDevOverall: metrics.stdDevOverall
+        }}
+      />
+      <NormalProbabilityPlot values={distribution.values} normality={analysis.normality} />
+      <CapabilityPlot
+        metrics={metrics}
+        capabilityIntervals={analysis.capabilityIntervals}
+        defectRates={analysis.defectRates}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
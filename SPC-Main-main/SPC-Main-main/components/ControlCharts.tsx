@@ -1,33 +1,95 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, Dimensions } from 'react-native';
 import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel } from 'victory-native';
+import {
+  CHART_TYPES,
+  ChartSeries,
+  ChartSignal,
+  ChartType,
+  getSpcConstants,
+  isSpreadPointExcluded,
+  PointExclusion,
+  SpcStage,
+  Subgroup
+} from '../lib/spc';
+import { SubgroupDetail } from './SubgroupDetail';
 
 interface ControlChartsProps {
+  chartType: ChartType;
   xBarData: { x: number; y: number }[];
-  rangeData: { x: number; y: number }[];
+  spreadData: { x: number; y: number }[];
   limits: {
     xBarUcl: number;
     xBarLcl: number;
     xBarMean: number;
-    rangeUcl: number;
-    rangeLcl: number;
-    rangeMean: number;
+    spreadUcl: number;
+    spreadLcl: number;
+    spreadMean: number;
   };
   sampleSize: number;
+  movingRangeSpan?: number;
+  signals?: ChartSignal[];
+  subgroups?: Subgroup[];
+  exclusions?: PointExclusion[];
+  stages?: SpcStage[];
+  // Custom staging: subgroups that start a new stage
+  stageBreaks?: number[];
+  onToggleStageBreak?: (subgroup: number) => void;
+  onExcludePoint?: (subgroup: number, reason: string) => void;
+  onRestorePoint?: (subgroup: number) => void;
 }
 
-const constants = {
-  1: { A2: 2.66, D3: 0, D4: 3.267, d2: 1.128 },
-  2: { A2: 1.88, D3: 0, D4: 3.267, d2: 1.128 },
-  3: { A2: 1.023, D3: 0, D4: 2.575, d2: 1.693 },
-  4: { A2: 0.729, D3: 0, D4: 2.282, d2: 2.059 },
-  5: { A2: 0.577, D3: 0, D4: 2.115, d2: 2.326 }
-} as const;
-
-export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: ControlChartsProps) {
+export function ControlCharts({
+  chartType,
+  xBarData,
+  spreadData,
+  limits,
+  sampleSize,
+  movingRangeSpan = 2,
+  signals = [],
+  subgroups = [],
+  exclusions = [],
+  stages = [],
+  stageBreaks = [],
+  onToggleStageBreak,
+  onExcludePoint,
+  onRestorePoint
+}: ControlChartsProps) {
+  const [selectedSubgroup, setSelectedSubgroup] = useState<number | null>(null);
   const screenWidth = Dimensions.get('window').width;
   const chartWidth = Math.max(screenWidth - 40, xBarData.length * 40);
-  const { A2, D3, D4, d2 } = constants[sampleSize as keyof typeof constants] || constants[1];
+  const isIndividuals = chartType === 'i-mr';
+  const constants = getSpcConstants(isIndividuals ? movingRangeSpan : sampleSize);
+  const chartInfo = CHART_TYPES[chartType];
+  const excluded = new Set(exclusions.map(e => e.subgroup));
+
+  const constantsShown: { label: string; value: number }[] = chartType === 'xbar-s'
+    ? [
+        { label: 'A3', value: constants.A3 },
+        { label: 'B3', value: constants.B3 },
+        { label: 'B4', value: constants.B4 },
+        { label: 'c4', value: constants.c4 }
+      ]
+    : [
+        isIndividuals
+          ? { label: 'E2', value: constants.E2 }
+          : { label: 'A2', value: constants.A2 },
+        { label: 'D3', value: constants.D3 },
+        { label: 'D4', value: constants.D4 },
+        { label: 'd2', value: constants.d2 }
+      ];
+
+  const xBarFormula = chartType === 'xbar-s'
+    ? 'UCL = X̄ + A3×S̄, LCL = X̄ - A3×S̄'
+    : isIndividuals
+      ? `UCL = X̄ + E2×MR̄, LCL = X̄ - E2×MR̄ (E2 = 3/d2 = ${constants.E2})`
+      : 'UCL = X̄ + A2×R̄, LCL = X̄ - A2×R̄';
+
+  const spreadFormula = chartType === 'xbar-s'
+    ? 'UCL = B4×S̄, LCL = B3×S̄'
+    : isIndividuals
+      ? 'UCL = D4×MR̄, LCL = D3×MR̄'
+      : 'UCL = D4×R̄, LCL = D3×R̄';
 
   const commonAxisStyle = {
     axis: { stroke: '#374151', strokeWidth: 1 },
@@ -46,14 +108,60 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
     }
   };
 
+  const ruleLabelStyle = { fontSize: 10, fontWeight: '600', fill: '#B45309' };
+  const stageLabelStyle = { fontSize: 10, fill: '#6B7280' };
+
+  // Tap (native) or click (web) a point to see the readings behind it
+  const selectPoint = (_event: unknown, props: { datum: { x: number } }) => {
+    setSelectedSubgroup(props.datum.x);
+    return [];
+  };
+
+  const spreadAtSelection = spreadData.find(d => d.x === selectedSubgroup);
+  const detailStats = chartType === 'xbar-r' || !spreadAtSelection
+    ? []
+    : [{ label: chartInfo.spreadAxisLabel, value: spreadAtSelection.y }];
+
   const renderChart = (
     data: typeof xBarData,
     limits: { ucl: number; lcl: number; mean: number },
     title: string,
-    formula: string
+    formula: string,
+    centerLabel: string,
+    axisLabel: string,
+    series: ChartSeries
   ) => {
+    // A staged chart draws each stage's limits over its own subgroups only
+    const stageLimits = stages.map(stage => ({
+      label: stage.label,
+      start: stage.start,
+      end: stage.end,
+      ...(series === 'center'
+        ? { ucl: stage.limits.xBarUcl, lcl: stage.limits.xBarLcl, mean: stage.limits.xBarMean }
+        : { ucl: stage.limits.spreadUcl, lcl: stage.limits.spreadLcl, mean: stage.limits.spreadMean })
+    }));
+    const limitSegments = stageLimits.length > 0
+      ? stageLimits
+      : [{ ...limits, label: '', start: data[0]?.x ?? 1, end: data[data.length - 1]?.x ?? 1 }];
+
+    // Points that break an enabled rule carry the rule numbers as a label
+    const violations = new Map(
+      signals.filter(s => s.chart === series).map(s => [s.subgroup, s.rules.join(',')])
+    );
+    // Excluded points stay on the chart as hollow markers
+    const points = data.map(d => ({
+      ...d,
+      rules: violations.get(d.x),
+      excluded: series === 'center'
+        ? excluded.has(d.x)
+        : isSpreadPointExcluded(d.x, excluded, { chartType, sampleSize, movingRangeSpan })
+    }));
+
     // Calculate domain with padding
-    const yValues = [...data.map(d => d.y), limits.ucl, limits.lcl, limits.mean];
+    const yValues = [
+      ...data.map(d => d.y),
+      ...limitSegments.flatMap(segment => [segment.ucl, segment.lcl, segment.mean])
+    ];
     const yMin = Math.min(...yValues);
     const yMax = Math.max(...yValues);
     const yPadding = (yMax - yMin) * 0.1;
@@ -65,20 +173,41 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
           <Text style={styles.formula}>{formula}</Text>
         </View>
 
-        <View style={styles.limitsContainer}>
-          <View style={[styles.limitBox, styles.uclBox]}>
-            <Text style={styles.limitLabel}>UCL</Text>
-            <Text style={styles.limitValue}>{limits.ucl.toFixed(3)}</Text>
+        {stageLimits.length > 0 ? (
+          <View style={styles.stageTable}>
+            <View style={[styles.stageRow, styles.stageHeader]}>
+              <Text style={[styles.stageCell, styles.stageLabelCell, styles.stageHeaderText]}>Stage</Text>
+              <Text style={[styles.stageCell, styles.stageHeaderText]}>UCL</Text>
+              <Text style={[styles.stageCell, styles.stageHeaderText]}>{centerLabel}</Text>
+              <Text style={[styles.stageCell, styles.stageHeaderText]}>LCL</Text>
+            </View>
+            {stageLimits.map(stage => (
+              <View key={stage.start} style={styles.stageRow}>
+                <Text style={[styles.stageCell, styles.stageLabelCell]}>
+                  {stage.label} (G{stage.start}-G{stage.end})
+                </Text>
+                <Text style={styles.stageCell}>{stage.ucl.toFixed(3)}</Text>
+                <Text style={styles.stageCell}>{stage.mean.toFixed(3)}</Text>
+                <Text style={styles.stageCell}>{stage.lcl.toFixed(3)}</Text>
+              </View>
+            ))}
           </View>
-          <View style={[styles.limitBox, styles.meanBox]}>
-            <Text style={styles.limitLabel}>{title === 'X-Bar Chart' ? 'X̄' : 'R̄'}</Text>
-            <Text style={styles.limitValue}>{limits.mean.toFixed(3)}</Text>
+        ) : (
+          <View style={styles.limitsContainer}>
+            <View style={[styles.limitBox, styles.uclBox]}>
+              <Text style={styles.limitLabel}>UCL</Text>
+              <Text style={styles.limitValue}>{limits.ucl.toFixed(3)}</Text>
+            </View>
+            <View style={[styles.limitBox, styles.meanBox]}>
+              <Text style={styles.limitLabel}>{centerLabel}</Text>
+              <Text style={styles.limitValue}>{limits.mean.toFixed(3)}</Text>
+            </View>
+            <View style={[styles.limitBox, styles.lclBox]}>
+              <Text style={styles.limitLabel}>LCL</Text>
+              <Text style={styles.limitValue}>{limits.lcl.toFixed(3)}</Text>
+            </View>
           </View>
-          <View style={[styles.limitBox, styles.lclBox]}>
-            <Text style={styles.limitLabel}>LCL</Text>
-            <Text style={styles.limitValue}>{limits.lcl.toFixed(3)}</Text>
-          </View>
-        </View>
+        )}
 
         <ScrollView horizontal showsHorizontalScrollIndicator={true}>
           <VictoryChart
@@ -98,40 +227,55 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
             <VictoryAxis
               dependentAxis
               style={commonAxisStyle}
-              label={title === 'X-Bar Chart' ? 'Value' : 'Range'}
+              label={axisLabel}
               axisLabelComponent={<VictoryLabel dy={-45}/>}
             />
             
             {/* Control Limits */}
-            <VictoryLine
-              y={() => limits.ucl}
-              style={{ 
-                data: { 
-                  stroke: '#3B82F6', 
-                  strokeWidth: 1.5,
-                  strokeDasharray: '5,5' 
-                } 
-              }}
-            />
-            <VictoryLine
-              y={() => limits.mean}
-              style={{ 
-                data: { 
-                  stroke: '#10B981', 
-                  strokeWidth: 1.5
-                } 
-              }}
-            />
-            <VictoryLine
-              y={() => limits.lcl}
-              style={{ 
-                data: { 
-                  stroke: '#3B82F6', 
-                  strokeWidth: 1.5,
-                  strokeDasharray: '5,5' 
-                } 
-              }}
-            />
+            {limitSegments.flatMap(segment => {
+              const x = [segment.start - 0.5, segment.end + 0.5];
+              return [
+                <VictoryLine
+                  key={`ucl-${segment.start}`}
+                  data={x.map(xi => ({ x: xi, y: segment.ucl }))}
+                  style={{ data: { stroke: '#3B82F6', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+                />,
+                <VictoryLine
+                  key={`mean-${segment.start}`}
+                  data={x.map(xi => ({ x: xi, y: segment.mean }))}
+                  style={{ data: { stroke: '#10B981', strokeWidth: 1.5 } }}
+                />,
+                <VictoryLine
+                  key={`lcl-${segment.start}`}
+                  data={x.map(xi => ({ x: xi, y: segment.lcl }))}
+                  style={{ data: { stroke: '#3B82F6', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+                />
+              ];
+            })}
+
+            {/* Stage breaks and names */}
+            {stageLimits.slice(1).map(stage => (
+              <VictoryLine
+                key={`break-${stage.start}`}
+                data={[
+                  { x: stage.start - 0.5, y: yMin - yPadding },
+                  { x: stage.start - 0.5, y: yMax + yPadding }
+                ]}
+                style={{ data: { stroke: '#9CA3AF', strokeWidth: 1, strokeDasharray: '2,4' } }}
+              />
+            ))}
+            {stageLimits.length > 0 && (
+              <VictoryScatter
+                data={stageLimits.map(stage => ({
+                  x: (stage.start + stage.end) / 2,
+                  y: yMax + yPadding * 0.5,
+                  label: stage.label
+                }))}
+                size={0}
+                labels={({ datum }) => datum.label}
+                labelComponent={<VictoryLabel style={stageLabelStyle} />}
+              />
+            )}
 
             {/* Data Line and Points */}
             <VictoryLine
@@ -144,13 +288,19 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
               }}
             />
             <VictoryScatter
-              data={data}
-              size={5}
+              data={points}
+              size={({ datum }) => (datum.rules ? 7 : 5)}
+              labels={({ datum }) => datum.rules ?? ''}
+              labelComponent={<VictoryLabel dy={-6} style={ruleLabelStyle} />}
+              events={[{
+                target: 'data',
+                eventHandlers: { onPressIn: selectPoint, onClick: selectPoint }
+              }]}
               style={{ 
                 data: { 
-                  fill: '#EF4444',
-                  stroke: '#fff',
-                  strokeWidth: 1
+                  fill: ({ datum }) => (datum.excluded ? '#fff' : datum.rules ? '#F59E0B' : '#EF4444'),
+                  stroke: ({ datum }) => (datum.excluded ? '#EF4444' : '#fff'),
+                  strokeWidth: ({ datum }) => (datum.excluded ? 2 : 1)
                 } 
               }}
             />
@@ -163,27 +313,28 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
   return (
     <View style={styles.container}>
       <View style={styles.constantsTable}>
-        <Text style={styles.tableTitle}>Control Chart Constants (n={sampleSize})</Text>
+        <Text style={styles.tableTitle}>
+          {isIndividuals
+            ? `Control Chart Constants (moving range span=${movingRangeSpan})`
+            : `Control Chart Constants (n=${sampleSize})`}
+        </Text>
         <View style={styles.tableRow}>
-          <View style={styles.tableCell}>
-            <Text style={styles.tableCellLabel}>A2</Text>
-            <Text style={styles.tableCellValue}>{A2}</Text>
-          </View>
-          <View style={styles.tableCell}>
-            <Text style={styles.tableCellLabel}>D3</Text>
-            <Text style={styles.tableCellValue}>{D3}</Text>
-          </View>
-          <View style={styles.tableCell}>
-            <Text style={styles.tableCellLabel}>D4</Text>
-            <Text style={styles.tableCellValue}>{D4}</Text>
-          </View>
-          <View style={styles.tableCell}>
-            <Text style={styles.tableCellLabel}>d2</Text>
-            <Text style={styles.tableCellValue}>{d2}</Text>
-          </View>
+          {constantsShown.map(({ label, value }) => (
+            <View key={label} style={styles.tableCell}>
+              <Text style={styles.tableCellLabel}>{label}</Text>
+              <Text style={styles.tableCellValue}>{value}</Text>
+            </View>
+          ))}
         </View>
       </View>
 
+      {exclusions.length > 0 && (
+        <Text style={styles.exclusionNote}>
+          {exclusions.length} subgroup{exclusions.length === 1 ? '' : 's'} excluded from the limits
+          (hollow markers). Tap a point to see the reason or include it again.
+        </Text>
+      )}
+
       {renderChart(
         xBarData,
         {
@@ -191,22 +342,49 @@ export function ControlCharts({ xBarData, rangeData, limits, sampleSize }: Contr
           lcl: limits.xBarLcl,
           mean: limits.xBarMean
         },
-        'X-Bar Chart',
-        sampleSize === 1 
-          ? 'UCL = X̄ + (2.66×MR/1.128), LCL = X̄ - (2.66×MR/1.128)'
-          : 'UCL = X̄ + A2×R̄, LCL = X̄ - A2×R̄'
+        chartInfo.centerTitle,
+        xBarFormula,
+        'X̄',
+        chartInfo.centerAxisLabel,
+        'center'
       )}
 
       {renderChart(
-        rangeData,
+        spreadData,
         {
-          ucl: limits.rangeUcl,
-          lcl: limits.rangeLcl,
-          mean: limits.rangeMean
+          ucl: limits.spreadUcl,
+          lcl: limits.spreadLcl,
+          mean: limits.spreadMean
         },
-        'Range Chart',
-        'UCL = D4×R̄, LCL = D3×R̄'
+        chartInfo.spreadTitle,
+        spreadFormula,
+        chartInfo.spreadSymbol,
+        chartInfo.spreadAxisLabel,
+        'spread'
       )}
+
+      <SubgroupDetail
+        subgroupNumber={selectedSubgroup}
+        subgroup={selectedSubgroup !== null ? subgroups[selectedSubgroup - 1] : undefined}
+        extraStats={detailStats}
+        exclusion={exclusions.find(e => e.subgroup === selectedSubgroup)}
+        onExclude={onExcludePoint && (reason => {
+          if (selectedSubgroup !== null) onExcludePoint(selectedSubgroup, reason);
+          setSelectedSubgroup(null);
+        })}
+        onRestore={onRestorePoint && (() => {
+          if (selectedSubgroup !== null) onRestorePoint(selectedSubgroup);
+          setSelectedSubgroup(null);
+        })}
+        isStageBreak={selectedSubgroup !== null && stageBreaks.includes(selectedSubgroup)}
+        onToggleStageBreak={onToggleStageBreak && selectedSubgroup !== null && selectedSubgroup > 1
+          ? () => {
+              onToggleStageBreak(selectedSubgroup);
+              setSelectedSubgroup(null);
+            }
+          : undefined}
+        onClose={() => setSelectedSubgroup(null)}
+      />
     </View>
   );
 }
@@ -255,6 +433,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#0F172A',
   },
+  exclusionNote: {
+    fontSize: 13,
+    color: '#B45309',
+  },
   chartWrapper: {
     backgroundColor: '#fff',
     borderRadius: 8,
@@ -305,6 +487,32 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#BFDBFE',
   },
+  stageTable: {
+    marginBottom: 16,
+  },
+  stageRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  stageHeader: {
+    borderBottomColor: '#D1D5DB',
+  },
+  stageCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+    textAlign: 'right',
+  },
+  stageLabelCell: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  stageHeaderText: {
+    fontWeight: '600',
+    color: '#111827',
+  },
   limitLabel: {
     fontSize: 14,
     color: '#374151',
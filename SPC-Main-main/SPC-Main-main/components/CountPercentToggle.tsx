@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+
+export type FrequencyScale = 'count' | 'percent';
+
+interface CountPercentToggleProps {
+  value: FrequencyScale;
+  onChange: (value: FrequencyScale) => void;
+}
+
+const OPTIONS: { value: FrequencyScale; label: string }[] = [
+  { value: 'count', label: 'Count' },
+  { value: 'percent', label: 'Percent' }
+];
+
+export function CountPercentToggle({ value, onChange }: CountPercentToggleProps) {
+  return (
+    <View style={styles.container}>
+      {OPTIONS.map(option => (
+        <Pressable
+          key={option.value}
+          style={[styles.option, value === option.value && styles.selected]}
+          onPress={() => onChange(option.value)}
+        >
+          <Text style={[styles.text, value === option.value && styles.selectedText]}>{option.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    backgroundColor: '#fff',
+  },
+  selected: {
+    backgroundColor: '#2563EB',
+  },
+  text: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  selectedText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Dimensions, TextInput } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel, VictoryLegend } from 'victory-native';
+import { calculateCusum, DEFAULT_CUSUM_OPTIONS, SpcAnalysis } from '../lib/spc';
+
+interface CusumChartProps {
+  analysis: SpcAnalysis;
+}
+
+// Blank or unparseable input falls back to the default
+const parseNumber = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+export function CusumChart({ analysis }: CusumChartProps) {
+  const [targetText, setTargetText] = useState('');
+  const [kText, setKText] = useState(String(DEFAULT_CUSUM_OPTIONS.k));
+  const [hText, setHText] = useState(String(DEFAULT_CUSUM_OPTIONS.h));
+
+  const cusum = useMemo(
+    () => calculateCusum(analysis, {
+      target: parseNumber(targetText),
+      k: Math.max(parseNumber(kText) ?? DEFAULT_CUSUM_OPTIONS.k, 0),
+      h: Math.max(parseNumber(hText) ?? DEFAULT_CUSUM_OPTIONS.h, 0.1)
+    }),
+    [analysis, targetText, kText, hText]
+  );
+
+  const screenWidth = Dimensions.get('window').width;
+  const chartWidth = Math.max(screenWidth - 40, cusum.upper.length * 40);
+
+  // C− is drawn below zero so both sums share one chart
+  const upper = cusum.upper;
+  const lower = cusum.lower.map(p => ({ x: p.x, y: -p.y }));
+  const alarmPoints = cusum.alarms.map(alarm => ({
+    x: alarm.subgroup,
+    y: (alarm.direction === 'up' ? upper : lower).find(p => p.x === alarm.subgroup)?.y ?? 0
+  }));
+
+  const yValues = [...upper.map(p => p.y), ...lower.map(p => p.y), cusum.decisionInterval, -cusum.decisionInterval];
+  const yMin = Math.min(...yValues);
+  const yMax = Math.max(...yValues);
+  const yPadding = (yMax - yMin) * 0.1;
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' },
+    axisLabel: { fontSize: 14, padding: 35, fill: '#111827' }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>CUSUM Chart</Text>
+      <Text style={styles.formula}>
+        C+ = max(0, x̄ - (T + K) + C+), C− = max(0, (T - K) - x̄ + C−), K = k·σx̄, H = h·σx̄
+      </Text>
+
+      <View style={styles.inputRow}>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>Target (T)</Text>
+          <TextInput
+            style={styles.input}
+            value={targetText}
+            onChangeText={setTargetText}
+            placeholder={cusum.target.toFixed(4)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>k (σ)</Text>
+          <TextInput style={styles.input} value={kText} onChangeText={setKText} keyboardType="decimal-pad" />
+        </View>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>h (σ)</Text>
+          <TextInput style={styles.input} value={hText} onChangeText={setHText} keyboardType="decimal-pad" />
+        </View>
+      </View>
+
+      <View style={styles.statsRow}>
+        <Text style={styles.stat}>σx̄ = {cusum.sigma.toFixed(4)}</Text>
+        <Text style={styles.stat}>K = {cusum.allowance.toFixed(4)}</Text>
+        <Text style={styles.stat}>H = {cusum.decisionInterval.toFixed(4)}</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <VictoryChart
+          width={chartWidth}
+          height={300}
+          padding={{ top: 50, bottom: 50, left: 60, right: 30 }}
+          domain={{ y: [yMin - yPadding, yMax + yPadding] }}
+        >
+          <VictoryLegend
+            x={60}
+            y={5}
+            orientation="horizontal"
+            gutter={20}
+            data={[
+              { name: 'C+', symbol: { fill: '#EF4444' } },
+              { name: 'C−', symbol: { fill: '#3B82F6' } },
+              { name: '±H', symbol: { fill: '#6B7280' } }
+            ]}
+          />
+          <VictoryAxis
+            tickFormat={(t) => `G${t}`}
+            style={axisStyle}
+            label="Subgroups"
+            axisLabelComponent={<VictoryLabel dy={35} />}
+          />
+          <VictoryAxis
+            dependentAxis
+            style={axisStyle}
+            label="Cumulative Sum"
+            axisLabelComponent={<VictoryLabel dy={-45} />}
+          />
+
+          <VictoryLine
+            y={() => cusum.decisionInterval}
+            style={{ data: { stroke: '#6B7280', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+          />
+          <VictoryLine
+            y={() => 0}
+            style={{ data: { stroke: '#10B981', strokeWidth: 1 } }}
+          />
+          <VictoryLine
+            y={() => -cusum.decisionInterval}
+            style={{ data: { stroke: '#6B7280', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+          />
+
+          <VictoryLine data={upper} style={{ data: { stroke: '#EF4444', strokeWidth: 2 } }} />
+          <VictoryLine data={lower} style={{ data: { stroke: '#3B82F6', strokeWidth: 2 } }} />
+          <VictoryScatter
+            data={alarmPoints}
+            size={7}
+            style={{ data: { fill: '#F59E0B', stroke: '#fff', strokeWidth: 1 } }}
+          />
+        </VictoryChart>
+      </ScrollView>
+
+      {cusum.alarms.length === 0 ? (
+        <Text style={styles.noAlarm}>No sustained shift beyond the decision interval</Text>
+      ) : (
+        cusum.alarms.map(alarm => (
+          <Text key={`${alarm.direction}-${alarm.subgroup}`} style={styles.alarm}>
+            {alarm.direction === 'up' ? 'Upward' : 'Downward'} shift signalled at G{alarm.subgroup},
+            estimated onset G{alarm.onset} (estimated mean {alarm.estimatedMean.toFixed(4)})
+          </Text>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  inputBox: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 8,
+    fontSize: 14,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stat: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  noAlarm: {
+    fontSize: 14,
+    color: '#16A34A',
+    marginTop: 8,
+  },
+  alarm: {
+    fontSize: 14,
+    color: '#B45309',
+    marginTop: 8,
+  },
+});
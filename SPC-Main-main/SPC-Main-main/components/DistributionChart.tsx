@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import { VictoryChart, VictoryBar, VictoryAxis, VictoryLine } from 'victory-native';
+import { VictoryChart, VictoryBar, VictoryAxis, VictoryLine, VictoryScatter, VictoryLabel } from 'victory-native';
+import { BINNING_RULES, calculateNormalCurve, HistogramOptions } from '../lib/spc';
+import { CountPercentToggle, FrequencyScale } from './CountPercentToggle';
 
 interface DistributionChartProps {
   data: {
@@ -10,20 +12,45 @@ interface DistributionChartProps {
   stats: {
     mean: number;
     stdDev: number;
-    target: number;
+    stdDevWithin: number;
+    target: number | null;
+    binWidth: number;
   };
+  // A one-sided spec has only one of LSL/USL
+  lsl: number | null;
+  usl: number | null;
   numberOfBins: number;
+  binning?: HistogramOptions;
 }
 
-export function DistributionChart({ data, stats, numberOfBins }: DistributionChartProps) {
+export function DistributionChart({ data, stats, lsl, usl, numberOfBins, binning }: DistributionChartProps) {
   // Calculate width based on number of data points
   const chartWidth = Math.max(350, data.length * 50); // Minimum 350px or 50px per point
+  // No target on a one-sided spec
+  const { target } = stats;
+  const [scale, setScale] = useState<FrequencyScale>('count');
+
+  const count = data.reduce((sum, bin) => sum + bin.y, 0);
+  const total = scale === 'percent' ? 100 : count;
+  const bars = data.map(bin => ({ ...bin, y: count > 0 ? (bin.y * total) / count : 0 }));
+  const withinCurve = calculateNormalCurve(stats.mean, stats.stdDevWithin, total, stats.binWidth);
+  const overallCurve = calculateNormalCurve(stats.mean, stats.stdDev, total, stats.binWidth);
+
+  const yTop = Math.max(...bars.map(bin => bin.y), ...withinCurve.map(p => p.y), ...overallCurve.map(p => p.y), 1) * 1.15;
+  const markers = [
+    { x: lsl, label: 'LSL' },
+    { x: stats.mean, label: 'Mean' },
+    { x: target, label: 'Target' },
+    { x: usl, label: 'USL' }
+  ].filter((marker): marker is { x: number; label: string } => marker.x !== null);
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Distribution Analysis</Text>
-        <Text style={styles.binsInfo}>Number of Bins: {numberOfBins} (√n rule)</Text>
+        <Text style={styles.binsInfo}>
+          Number of Bins: {numberOfBins} ({BINNING_RULES.find(r => r.value === binning?.rule)?.label ?? 'Square root (√n)'})
+        </Text>
       </View>
 
       <View style={styles.statsContainer}>
@@ -35,18 +62,23 @@ export function DistributionChart({ data, stats, numberOfBins }: DistributionCha
           <Text style={styles.statLabel}>Std Dev</Text>
           <Text style={styles.statValue}>{stats.stdDev}</Text>
         </View>
-        <View style={[styles.statBox, styles.targetBox]}>
-          <Text style={styles.statLabel}>Target</Text>
-          <Text style={styles.statValue}>{stats.target}</Text>
-        </View>
+        {target !== null && (
+          <View style={[styles.statBox, styles.targetBox]}>
+            <Text style={styles.statLabel}>Target</Text>
+            <Text style={styles.statValue}>{target}</Text>
+          </View>
+        )}
       </View>
 
+      <CountPercentToggle value={scale} onChange={setScale} />
+
       <ScrollView horizontal showsHorizontalScrollIndicator={true}>
         <View style={{ width: chartWidth }}>
           <VictoryChart
             padding={{ top: 40, bottom: 50, left: 50, right: 20 }}
             height={300}
             width={chartWidth}
+            domain={{ y: [0, yTop] }}
           >
             <VictoryAxis
               style={{
@@ -55,23 +87,52 @@ export function DistributionChart({ data, stats, numberOfBins }: DistributionCha
             />
             <VictoryAxis
               dependentAxis
-              label="Frequency"
+              label={scale === 'percent' ? 'Percent' : 'Frequency'}
+              tickFormat={(t) => (scale === 'percent' ? `${t}%` : t)}
               style={{
                 grid: { stroke: '#E5E7EB', strokeDasharray: '5,5' },
                 axisLabel: { padding: 35 },
               }}
             />
             <VictoryBar
-              data={data}
+              data={bars}
               style={{ data: { fill: '#3B82F6' } }}
             />
+            <VictoryLine
+              data={withinCurve}
+              style={{ data: { stroke: '#7C3AED', strokeWidth: 2 } }}
+            />
+            <VictoryLine
+              data={overallCurve}
+              style={{ data: { stroke: '#111827', strokeWidth: 2, strokeDasharray: '6,3' } }}
+            />
             <VictoryLine
               x={() => stats.mean}
               style={{ data: { stroke: '#22C55E', strokeWidth: 2 } }}
             />
-            <VictoryLine
-              x={() => stats.target}
-              style={{ data: { stroke: '#EF4444', strokeWidth: 2 } }}
+            {target !== null && (
+              <VictoryLine
+                x={() => target}
+                style={{ data: { stroke: '#EF4444', strokeWidth: 2 } }}
+              />
+            )}
+            {lsl !== null && (
+              <VictoryLine
+                x={() => lsl}
+                style={{ data: { stroke: '#EF4444', strokeWidth: 2, strokeDasharray: '5,5' } }}
+              />
+            )}
+            {usl !== null && (
+              <VictoryLine
+                x={() => usl}
+                style={{ data: { stroke: '#EF4444', strokeWidth: 2, strokeDasharray: '5,5' } }}
+              />
+            )}
+            <VictoryScatter
+              data={markers.map(marker => ({ ...marker, y: yTop }))}
+              size={0}
+              labels={({ datum }) => datum.label}
+              labelComponent={<VictoryLabel style={{ fontSize: 11, fontWeight: '600', fill: '#374151' }} />}
             />
           </VictoryChart>
         </View>
@@ -87,9 +148,19 @@ export function DistributionChart({ data, stats, numberOfBins }: DistributionCha
           <Text style={styles.legendText}>Mean</Text>
         </View>
         <View style={styles.legendItem}>
-          <View style={[styles.legendColor, { backgroundColor: '#EF4444' }]} />
-          <Text style={styles.legendText}>Target</Text>
+          <View style={[styles.legendColor, { backgroundColor: '#7C3AED' }]} />
+          <Text style={styles.legendText}>Within</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendColor, { backgroundColor: '#111827' }]} />
+          <Text style={styles.legendText}>Overall</Text>
         </View>
+        {target !== null && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendColor, { backgroundColor: '#EF4444' }]} />
+            <Text style={styles.legendText}>Target</Text>
+          </View>
+        )}
       </View>
     </View>
   );
@@ -156,6 +227,7 @@ const styles = StyleSheet.create({
   },
   legend: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
     gap: 16,
     marginTop: 16,
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Dimensions, TextInput } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel } from 'victory-native';
+import { calculateEwma, DEFAULT_EWMA_OPTIONS, SpcAnalysis } from '../lib/spc';
+
+interface EwmaChartProps {
+  analysis: SpcAnalysis;
+}
+
+// Blank or unparseable input falls back to the default
+const parseNumber = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+export function EwmaChart({ analysis }: EwmaChartProps) {
+  const [targetText, setTargetText] = useState('');
+  const [lambdaText, setLambdaText] = useState(String(DEFAULT_EWMA_OPTIONS.lambda));
+  const [lText, setLText] = useState(String(DEFAULT_EWMA_OPTIONS.L));
+
+  const ewma = useMemo(
+    () => calculateEwma(analysis, {
+      target: parseNumber(targetText),
+      lambda: Math.min(Math.max(parseNumber(lambdaText) ?? DEFAULT_EWMA_OPTIONS.lambda, 0.01), 1),
+      L: Math.max(parseNumber(lText) ?? DEFAULT_EWMA_OPTIONS.L, 0.1)
+    }),
+    [analysis, targetText, lambdaText, lText]
+  );
+
+  const screenWidth = Dimensions.get('window').width;
+  const chartWidth = Math.max(screenWidth - 40, ewma.points.length * 40);
+  const outOfControl = ewma.points.filter(p => p.outOfControl);
+
+  const yValues = ewma.points.flatMap(p => [p.y, p.ucl, p.lcl]);
+  const yMin = Math.min(...yValues, ewma.steadyLcl);
+  const yMax = Math.max(...yValues, ewma.steadyUcl);
+  const yPadding = (yMax - yMin) * 0.1;
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' },
+    axisLabel: { fontSize: 14, padding: 35, fill: '#111827' }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>EWMA Chart</Text>
+      <Text style={styles.formula}>
+        z = λ·x̄ + (1 - λ)·z, limits = T ± L·σx̄·√(λ/(2 - λ)·[1 - (1 - λ)^2i])
+      </Text>
+
+      <View style={styles.inputRow}>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>Target (T)</Text>
+          <TextInput
+            style={styles.input}
+            value={targetText}
+            onChangeText={setTargetText}
+            placeholder={ewma.target.toFixed(4)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>λ (0-1)</Text>
+          <TextInput style={styles.input} value={lambdaText} onChangeText={setLambdaText} keyboardType="decimal-pad" />
+        </View>
+        <View style={styles.inputBox}>
+          <Text style={styles.inputLabel}>L</Text>
+          <TextInput style={styles.input} value={lText} onChangeText={setLText} keyboardType="decimal-pad" />
+        </View>
+      </View>
+
+      <View style={styles.statsRow}>
+        <Text style={styles.stat}>σx̄ = {ewma.sigma.toFixed(4)}</Text>
+        <Text style={styles.stat}>Steady UCL = {ewma.steadyUcl.toFixed(4)}</Text>
+        <Text style={styles.stat}>Steady LCL = {ewma.steadyLcl.toFixed(4)}</Text>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <VictoryChart
+          width={chartWidth}
+          height={300}
+          padding={{ top: 40, bottom: 50, left: 60, right: 30 }}
+          domain={{ y: [yMin - yPadding, yMax + yPadding] }}
+        >
+          <VictoryAxis
+            tickFormat={(t) => `G${t}`}
+            style={axisStyle}
+            label="Subgroups"
+            axisLabelComponent={<VictoryLabel dy={35} />}
+          />
+          <VictoryAxis
+            dependentAxis
+            style={axisStyle}
+            label="EWMA"
+            axisLabelComponent={<VictoryLabel dy={-45} />}
+          />
+
+          <VictoryLine
+            data={ewma.points.map(p => ({ x: p.x, y: p.ucl }))}
+            interpolation="stepAfter"
+            style={{ data: { stroke: '#3B82F6', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+          />
+          <VictoryLine
+            y={() => ewma.target}
+            style={{ data: { stroke: '#10B981', strokeWidth: 1.5 } }}
+          />
+          <VictoryLine
+            data={ewma.points.map(p => ({ x: p.x, y: p.lcl }))}
+            interpolation="stepAfter"
+            style={{ data: { stroke: '#3B82F6', strokeWidth: 1.5, strokeDasharray: '5,5' } }}
+          />
+
+          <VictoryLine data={ewma.points} style={{ data: { stroke: '#EF4444', strokeWidth: 2 } }} />
+          <VictoryScatter
+            data={ewma.points}
+            size={({ datum }) => (datum.outOfControl ? 7 : 4)}
+            style={{
+              data: {
+                fill: ({ datum }) => (datum.outOfControl ? '#F59E0B' : '#EF4444'),
+                stroke: '#fff',
+                strokeWidth: 1
+              }
+            }}
+          />
+        </VictoryChart>
+      </ScrollView>
+
+      {outOfControl.length === 0 ? (
+        <Text style={styles.noAlarm}>EWMA stays within its limits</Text>
+      ) : (
+        <Text style={styles.alarm}>
+          {outOfControl.length} point{outOfControl.length === 1 ? '' : 's'} beyond the EWMA limits,
+          first at G{outOfControl[0].x}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  inputBox: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 8,
+    fontSize: 14,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  stat: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  noAlarm: {
+    fontSize: 14,
+    color: '#16A34A',
+    marginTop: 8,
+  },
+  alarm: {
+    fontSize: 14,
+    color: '#B45309',
+    marginTop: 8,
+  },
+});
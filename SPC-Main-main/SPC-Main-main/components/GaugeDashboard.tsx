@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
+import { ArrowDown, ArrowUp, ChevronRight } from 'lucide-react-native';
+import {
+  GaugeCapabilitySummary,
+  GaugeSummarySortKey,
+  MIN_CAPABILITY_LOWER_BOUND,
+  sortGaugeSummaries,
+  SortDirection
+} from '../lib/spc';
+
+interface GaugeDashboardProps {
+  // Attribute rows have no Cpk/Ppk; PPM is the observed nonconforming rate
+  mode: 'variables' | 'attributes';
+  rows: GaugeCapabilitySummary[];
+  // Gauge currently open in the single-gauge view
+  selectedGauge?: string;
+  onSelectGauge: (guageCode: string) => void;
+}
+
+const COLUMNS: { key: GaugeSummarySortKey; label: string; width: number }[] = [
+  { key: 'guageCode', label: 'Characteristic', width: 160 },
+  { key: 'readings', label: 'n', width: 56 },
+  { key: 'cpk', label: 'Cpk', width: 64 },
+  { key: 'ppk', label: 'Ppk', width: 64 },
+  { key: 'ppm', label: 'PPM', width: 84 },
+  { key: 'violations', label: 'Signals', width: 64 }
+];
+
+const indexColor = (value: number | null) => {
+  if (value === null) return '#374151';
+  if (value >= MIN_CAPABILITY_LOWER_BOUND) return '#16A34A';
+  return value >= 1 ? '#B45309' : '#DC2626';
+};
+
+// 63 and 2700 PPM are the two-sided rates at Ppk 1.33 and 1.0
+const ppmColor = (value: number | null) => {
+  if (value === null) return '#374151';
+  if (value <= 63) return '#16A34A';
+  return value <= 2700 ? '#B45309' : '#DC2626';
+};
+
+const violationColor = (count: number) => (count === 0 ? '#16A34A' : '#DC2626');
+
+// Worst capability (or highest PPM for attributes) first, so problem
+// characteristics lead the list
+export function GaugeDashboard({ mode, rows, selectedGauge, onSelectGauge }: GaugeDashboardProps) {
+  const [sortKey, setSortKey] = useState<GaugeSummarySortKey>(mode === 'attributes' ? 'ppm' : 'cpk');
+  const [direction, setDirection] = useState<SortDirection>(mode === 'attributes' ? 'desc' : 'asc');
+
+  const sorted = useMemo(() => sortGaugeSummaries(rows, sortKey, direction), [rows, sortKey, direction]);
+  const capable = rows.filter(r => r.ppk !== null && r.ppk >= MIN_CAPABILITY_LOWER_BOUND).length;
+  const stable = rows.filter(r => r.error === null && r.violations === 0).length;
+  const failed = rows.filter(r => r.error !== null).length;
+
+  const handleSort = (key: GaugeSummarySortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      // Higher is worse for PPM and signals
+      setDirection(key === 'ppm' || key === 'violations' ? 'desc' : 'asc');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Capability Dashboard</Text>
+      <Text style={styles.subtitle}>
+        {mode === 'attributes'
+          ? `${stable} of ${rows.length - failed} characteristics with no out-of-control groups`
+          : `${capable} of ${rows.length - failed} characteristics at Ppk ≥ ${MIN_CAPABILITY_LOWER_BOUND}`}
+        {failed > 0 && ` · ${failed} could not be analyzed`}
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={[styles.row, styles.headerRow]}>
+            {COLUMNS.map(column => (
+              <Pressable
+                key={column.key}
+                style={[styles.headerCell, { width: column.width }, column.key === 'guageCode' && styles.nameCell]}
+                onPress={() => handleSort(column.key)}
+              >
+                <Text style={styles.headerText}>{column.label}</Text>
+                {sortKey === column.key && (
+                  direction === 'asc' ? <ArrowUp size={12} color="#111827" /> : <ArrowDown size={12} color="#111827" />
+                )}
+              </Pressable>
+            ))}
+          </View>
+
+          {sorted.map(row => (
+            <Pressable
+              key={row.guageCode}
+              style={({ pressed }) => [
+                styles.row,
+                row.guageCode === selectedGauge && styles.selectedRow,
+                pressed && styles.rowPressed
+              ]}
+              onPress={() => onSelectGauge(row.guageCode)}
+            >
+              <View style={[styles.nameCell, { width: COLUMNS[0].width }]}>
+                <Text style={styles.nameText} numberOfLines={1}>{row.guageName || row.guageCode}</Text>
+                <Text style={styles.codeText}>{row.guageCode}</Text>
+              </View>
+              {row.error !== null ? (
+                <Text style={styles.errorText} numberOfLines={2}>{row.error}</Text>
+              ) : (
+                <>
+                  <Text style={[styles.cell, { width: COLUMNS[1].width }]}>{row.readings}</Text>
+                  <Text style={[styles.cell, { width: COLUMNS[2].width, color: indexColor(row.cpk) }]}>
+                    {row.cpk?.toFixed(2) ?? '—'}
+                  </Text>
+                  <Text style={[styles.cell, { width: COLUMNS[3].width, color: indexColor(row.ppk) }]}>
+                    {row.ppk?.toFixed(2) ?? '—'}
+                  </Text>
+                  <Text style={[styles.cell, { width: COLUMNS[4].width, color: ppmColor(row.ppm) }]}>
+                    {row.ppm?.toFixed(0) ?? '—'}
+                  </Text>
+                  <Text style={[styles.cell, { width: COLUMNS[5].width, color: violationColor(row.violations) }]}>
+                    {row.violations}
+                  </Text>
+                </>
+              )}
+              <ChevronRight size={16} color="#9CA3AF" />
+            </Pressable>
+          ))}
+        </View>
+      </ScrollView>
+      <Text style={styles.hint}>Tap a column to sort, or a characteristic to open its charts.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerRow: {
+    borderBottomColor: '#D1D5DB',
+  },
+  selectedRow: {
+    backgroundColor: '#EFF6FF',
+  },
+  rowPressed: {
+    opacity: 0.7,
+  },
+  headerCell: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 2,
+  },
+  headerText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  nameCell: {
+    justifyContent: 'flex-start',
+    paddingRight: 8,
+  },
+  nameText: {
+    fontSize: 13,
+    color: '#111827',
+  },
+  codeText: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  cell: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    textAlign: 'right',
+  },
+  errorText: {
+    width: 332,
+    fontSize: 12,
+    color: '#DC2626',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
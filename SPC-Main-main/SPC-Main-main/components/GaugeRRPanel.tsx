@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ruler } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { analyzeGaugeStudy, GaugeRRResult, GaugeStudy, SpcAnalysisError } from '../lib/spc';
+import { GaugeRRVerdictBadge } from './GaugeRRResults';
+
+interface GaugeRRPanelProps {
+  guageCode: string;
+  guageName?: string;
+  study: GaugeStudy | null;
+  onOpenStudy: () => void;
+}
+
+// The gauge's latest R&R study, shown next to the readings it produced
+export function GaugeRRPanel({ guageCode, guageName, study, onOpenStudy }: GaugeRRPanelProps) {
+  const result = useMemo<GaugeRRResult | string | null>(() => {
+    if (!study) return null;
+    try {
+      return analyzeGaugeStudy(study);
+    } catch (error) {
+      return error instanceof SpcAnalysisError ? error.message : 'The saved study could not be analyzed';
+    }
+  }, [study]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ruler size={18} color="#4B5563" />
+        <Text style={styles.title}>Gauge R&R</Text>
+        {result !== null && typeof result !== 'string' && <GaugeRRVerdictBadge verdict={result.verdict} />}
+      </View>
+      <Text style={styles.subText}>{guageName ? `${guageName} (${guageCode})` : guageCode}</Text>
+
+      {study === null ? (
+        <Text style={styles.warning}>This gauge has no R&R study. Its readings have not been qualified.</Text>
+      ) : typeof result === 'string' ? (
+        <Text style={styles.warning}>{result}</Text>
+      ) : result !== null && (
+        <>
+          <Text style={styles.text}>
+            %GRR {result.gaugeRR.percentStudyVariation.toFixed(1)}%
+            {result.gaugeRR.percentTolerance !== null && ` · %Tolerance ${result.gaugeRR.percentTolerance.toFixed(1)}%`}
+            {result.ndc !== null && ` · ndc ${result.ndc}`}
+          </Text>
+          <Text style={styles.subText}>
+            Studied {format(new Date(study.conductedAt), 'dd/MM/yyyy')} by {study.conductedBy}
+          </Text>
+        </>
+      )}
+
+      <Pressable
+        style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+        onPress={onOpenStudy}
+      >
+        <Text style={styles.buttonText}>{study ? 'Open Study' : 'Start Gauge R&R Study'}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    flex: 1,
+  },
+  text: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  subText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  warning: {
+    fontSize: 13,
+    color: '#B45309',
+    marginBottom: 4,
+  },
+  button: {
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
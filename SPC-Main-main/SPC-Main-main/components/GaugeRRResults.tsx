@@ -0,0 +1,250 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import {
+  GAUGE_RR_METHODS,
+  GaugeRRComponent,
+  GaugeRRResult,
+  GaugeRRVerdict,
+  GRR_ACCEPTABLE_PERCENT,
+  GRR_MARGINAL_PERCENT,
+  MIN_DISTINCT_CATEGORIES
+} from '../lib/spc';
+
+const VERDICTS: Record<GaugeRRVerdict, { label: string; color: string; background: string }> = {
+  acceptable: { label: 'Acceptable', color: '#16A34A', background: '#DCFCE7' },
+  marginal: { label: 'Marginal', color: '#B45309', background: '#FFFBEB' },
+  unacceptable: { label: 'Unacceptable', color: '#DC2626', background: '#FEE2E2' }
+};
+
+const percentColor = (value: number | null) => {
+  if (value === null) return '#374151';
+  if (value > GRR_MARGINAL_PERCENT) return '#DC2626';
+  return value > GRR_ACCEPTABLE_PERCENT ? '#B45309' : '#16A34A';
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}%`);
+
+const formatNumber = (value: number | null) => (value === null ? '—' : value.toPrecision(4));
+
+export function GaugeRRVerdictBadge({ verdict }: { verdict: GaugeRRVerdict }) {
+  const { label, color, background } = VERDICTS[verdict];
+  return (
+    <View style={[styles.badge, { backgroundColor: background }]}>
+      <Text style={[styles.badgeText, { color }]}>{label}</Text>
+    </View>
+  );
+}
+
+interface GaugeRRResultsProps {
+  result: GaugeRRResult;
+}
+
+export function GaugeRRResults({ result }: GaugeRRResultsProps) {
+  const methodLabel = GAUGE_RR_METHODS.find(m => m.value === result.method)?.label;
+  const components = [
+    result.gaugeRR,
+    result.repeatability,
+    result.reproducibility,
+    result.operator,
+    result.interaction,
+    result.partToPart,
+    result.total
+  ].filter((c): c is GaugeRRComponent => c !== null);
+
+  const summary = [
+    { label: '%EV', value: formatPercent(result.repeatability.percentStudyVariation), color: percentColor(result.repeatability.percentStudyVariation) },
+    { label: '%AV', value: formatPercent(result.reproducibility.percentStudyVariation), color: percentColor(result.reproducibility.percentStudyVariation) },
+    { label: '%GRR', value: formatPercent(result.gaugeRR.percentStudyVariation), color: percentColor(result.gaugeRR.percentStudyVariation) },
+    { label: '%Tolerance', value: formatPercent(result.gaugeRR.percentTolerance), color: percentColor(result.gaugeRR.percentTolerance) },
+    {
+      label: 'ndc',
+      value: result.ndc === null ? '—' : String(result.ndc),
+      color: result.ndc !== null && result.ndc < MIN_DISTINCT_CATEGORIES ? '#DC2626' : '#16A34A'
+    }
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Gauge R&R · {result.guageCode}</Text>
+        <GaugeRRVerdictBadge verdict={result.verdict} />
+      </View>
+      <Text style={styles.subtitle}>
+        {methodLabel}, {result.parts} parts × {result.operators} operators × {result.trials} trials
+      </Text>
+
+      <View style={styles.summary}>
+        {summary.map(item => (
+          <View key={item.label} style={styles.summaryBox}>
+            <Text style={styles.summaryLabel}>{item.label}</Text>
+            <Text style={[styles.summaryValue, { color: item.color }]}>{item.value}</Text>
+          </View>
+        ))}
+      </View>
+      <Text style={styles.hint}>
+        %GRR under {GRR_ACCEPTABLE_PERCENT}% is acceptable and over {GRR_MARGINAL_PERCENT}% is not;
+        the gauge should resolve at least {MIN_DISTINCT_CATEGORIES} distinct categories.
+        {result.gaugeRR.percentTolerance === null && ' %Tolerance needs both LSL and USL.'}
+      </Text>
+
+      <Text style={styles.sectionTitle}>Variance Components</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={[styles.row, styles.headerRow]}>
+            <Text style={[styles.cell, styles.sourceCell, styles.headerText]}>Source</Text>
+            <Text style={[styles.cell, styles.headerText]}>Variance</Text>
+            <Text style={[styles.cell, styles.headerText]}>%Contrib</Text>
+            <Text style={[styles.cell, styles.headerText]}>σ</Text>
+            <Text style={[styles.cell, styles.headerText]}>6σ</Text>
+            <Text style={[styles.cell, styles.headerText]}>%Study Var</Text>
+            <Text style={[styles.cell, styles.headerText]}>%Tolerance</Text>
+          </View>
+          {components.map(c => (
+            <View key={c.source} style={styles.row}>
+              <Text style={[styles.cell, styles.sourceCell]}>{c.source}</Text>
+              <Text style={styles.cell}>{formatNumber(c.variance)}</Text>
+              <Text style={styles.cell}>{formatPercent(c.percentContribution)}</Text>
+              <Text style={styles.cell}>{formatNumber(c.stdDev)}</Text>
+              <Text style={styles.cell}>{formatNumber(c.studyVariation)}</Text>
+              <Text style={styles.cell}>{formatPercent(c.percentStudyVariation)}</Text>
+              <Text style={styles.cell}>{formatPercent(c.percentTolerance)}</Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {result.anova && (
+        <>
+          <Text style={styles.sectionTitle}>Two-Way ANOVA</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              <View style={[styles.row, styles.headerRow]}>
+                <Text style={[styles.cell, styles.sourceCell, styles.headerText]}>Source</Text>
+                <Text style={[styles.cell, styles.headerText]}>DF</Text>
+                <Text style={[styles.cell, styles.headerText]}>SS</Text>
+                <Text style={[styles.cell, styles.headerText]}>MS</Text>
+                <Text style={[styles.cell, styles.headerText]}>F</Text>
+                <Text style={[styles.cell, styles.headerText]}>P</Text>
+              </View>
+              {result.anova.map(row => (
+                <View key={row.source} style={styles.row}>
+                  <Text style={[styles.cell, styles.sourceCell]}>{row.source}</Text>
+                  <Text style={styles.cell}>{row.degreesOfFreedom}</Text>
+                  <Text style={styles.cell}>{formatNumber(row.sumOfSquares)}</Text>
+                  <Text style={styles.cell}>{formatNumber(row.meanSquare)}</Text>
+                  <Text style={styles.cell}>{row.f === null ? '' : row.f.toFixed(3)}</Text>
+                  <Text style={styles.cell}>{row.pValue === null ? '' : row.pValue.toFixed(3)}</Text>
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+          {result.interactionPooled && (
+            <Text style={styles.hint}>
+              The part × operator interaction was not significant (p &gt; 0.05) and is pooled into repeatability.
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    flexShrink: 1,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  badge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  summaryBox: {
+    flexGrow: 1,
+    minWidth: 90,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerRow: {
+    borderBottomColor: '#D1D5DB',
+  },
+  cell: {
+    width: 80,
+    fontSize: 13,
+    color: '#374151',
+    textAlign: 'right',
+  },
+  sourceCell: {
+    width: 150,
+    textAlign: 'left',
+  },
+  headerText: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -1,6 +1,9 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import { VictoryChart, VictoryBar, VictoryAxis, VictoryLine } from 'victory-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, Switch } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { VictoryChart, VictoryBar, VictoryAxis, VictoryLine, VictoryScatter, VictoryLabel } from 'victory-native';
+import { BINNING_RULES, BinningRule, calculateNormalCurve, HistogramOptions } from '../lib/spc';
+import { CountPercentToggle, FrequencyScale } from './CountPercentToggle';
 
 interface HistogramChartProps {
   data: {
@@ -9,9 +12,10 @@ interface HistogramChartProps {
     isWithinSpec?: boolean;
     containsTarget?: boolean;
   }[];
-  lsl: number;
-  usl: number;
-  target: number;
+  // A one-sided spec has only one of LSL/USL and no target
+  lsl: number | null;
+  usl: number | null;
+  target: number | null;
   numberOfBins: number;
   stats?: {
     min: number;
@@ -20,12 +24,88 @@ interface HistogramChartProps {
     binWidth: number;
     binStart: number;
   };
+  // Fitted normal curves drawn over the bars, as on a capability histogram
+  normalCurves?: {
+    mean: number;
+    stdDevWithin: number;
+    stdDevOverall: number;
+  };
+  binning?: HistogramOptions;
+  // Shows the binning controls when set
+  onBinningChange?: (binning: HistogramOptions) => void;
 }
 
-export function HistogramChart({ data, lsl, usl, target, numberOfBins, stats }: HistogramChartProps) {
+// Blank or unparseable input leaves the current setting alone
+const parseNumber = (text: string) => {
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+export function HistogramChart({
+  data,
+  lsl,
+  usl,
+  target,
+  numberOfBins,
+  stats,
+  normalCurves,
+  binning,
+  onBinningChange
+}: HistogramChartProps) {
   // Calculate width based on number of bins
   const chartWidth = Math.max(350, numberOfBins * 50); // Minimum 350px or 50px per bin
 
+  const [scale, setScale] = useState<FrequencyScale>('count');
+  const [widthText, setWidthText] = useState(binning?.binWidth !== undefined ? String(binning.binWidth) : '');
+  const [anchorText, setAnchorText] = useState(binning?.anchor !== undefined ? String(binning.anchor) : '');
+
+  const handleRuleChange = (rule: BinningRule) => {
+    if (!binning || !onBinningChange) return;
+    if (rule === 'manual') {
+      // Start from the width currently on screen
+      const binWidth = binning.binWidth ?? Number((stats?.binWidth ?? 1).toPrecision(2));
+      setWidthText(String(binning.binWidth ?? binWidth));
+      onBinningChange({ ...binning, rule, binWidth });
+    } else {
+      onBinningChange({ ...binning, rule });
+    }
+  };
+
+  const handleWidthChange = (text: string) => {
+    setWidthText(text);
+    const binWidth = parseNumber(text);
+    if (binning && onBinningChange && binWidth !== undefined && binWidth > 0) {
+      onBinningChange({ ...binning, binWidth });
+    }
+  };
+
+  const handleAnchorChange = (text: string) => {
+    setAnchorText(text);
+    if (binning && onBinningChange) {
+      onBinningChange({ ...binning, anchor: parseNumber(text) });
+    }
+  };
+
+  // Bars and curves share one scale: readings per bin, or percent of all readings
+  const count = data.reduce((sum, bin) => sum + bin.y, 0);
+  const total = scale === 'percent' ? 100 : count;
+  const bars = data.map(bin => ({ ...bin, y: count > 0 ? (bin.y * total) / count : 0 }));
+  const curves = normalCurves && stats && {
+    within: calculateNormalCurve(normalCurves.mean, normalCurves.stdDevWithin, total, stats.binWidth),
+    overall: calculateNormalCurve(normalCurves.mean, normalCurves.stdDevOverall, total, stats.binWidth)
+  };
+
+  const yTop = Math.max(
+    ...bars.map(bin => bin.y),
+    ...(curves ? [...curves.within, ...curves.overall].map(p => p.y) : []),
+    1
+  ) * 1.15;
+  const markers = [
+    { x: lsl, label: 'LSL' },
+    { x: target, label: 'Target' },
+    { x: usl, label: 'USL' }
+  ].filter((marker): marker is { x: number; label: string } => marker.x !== null);
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Histogram</Text>
@@ -47,12 +127,62 @@ export function HistogramChart({ data, lsl, usl, target, numberOfBins, stats }:
         </View>
       )}
 
+      {binning && onBinningChange && (
+        <View style={styles.binning}>
+          <Text style={styles.inputLabel}>Binning</Text>
+          <Picker
+            selectedValue={binning.rule}
+            onValueChange={(value) => handleRuleChange(value as BinningRule)}
+            style={styles.picker}
+          >
+            {BINNING_RULES.map(rule => (
+              <Picker.Item key={rule.value} label={rule.label} value={rule.value} />
+            ))}
+          </Picker>
+
+          {binning.rule === 'manual' && (
+            <View style={styles.inputRow}>
+              <View style={styles.inputBox}>
+                <Text style={styles.inputLabel}>Bin Width</Text>
+                <TextInput
+                  style={styles.input}
+                  value={widthText}
+                  onChangeText={handleWidthChange}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.inputBox}>
+                <Text style={styles.inputLabel}>Anchor (bin edge)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={anchorText}
+                  onChangeText={handleAnchorChange}
+                  placeholder={stats?.binStart.toFixed(3)}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+          )}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.inputLabel}>Extend bins to LSL/USL</Text>
+            <Switch
+              value={binning.includeSpecs}
+              onValueChange={(includeSpecs) => onBinningChange({ ...binning, includeSpecs })}
+            />
+          </View>
+        </View>
+      )}
+
+      <CountPercentToggle value={scale} onChange={setScale} />
+
       <ScrollView horizontal showsHorizontalScrollIndicator={true}>
         <View style={{ width: chartWidth }}>
           <VictoryChart
             padding={{ top: 40, bottom: 50, left: 50, right: 20 }}
             height={300}
             width={chartWidth}
+            domain={{ y: [0, yTop] }}
           >
             <VictoryAxis
               style={{
@@ -61,14 +191,15 @@ export function HistogramChart({ data, lsl, usl, target, numberOfBins, stats }:
             />
             <VictoryAxis
               dependentAxis
-              label="Frequency"
+              label={scale === 'percent' ? 'Percent' : 'Frequency'}
+              tickFormat={(t) => (scale === 'percent' ? `${t}%` : t)}
               style={{
                 grid: { stroke: '#E5E7EB', strokeDasharray: '5,5' },
                 axisLabel: { padding: 35 },
               }}
             />
             <VictoryBar
-              data={data}
+              data={bars}
               style={{
                 data: {
                   fill: ({ datum }) => {
@@ -81,35 +212,59 @@ export function HistogramChart({ data, lsl, usl, target, numberOfBins, stats }:
               }}
               barWidth={chartWidth / (numberOfBins * 1.5)}
             />
-            <VictoryLine
-              x={() => lsl}
-              style={{ 
-                data: { 
-                  stroke: '#EF4444', 
-                  strokeWidth: 2,
-                  strokeDasharray: '5,5'
-                } 
-              }}
-            />
-            <VictoryLine
-              x={() => target}
-              style={{ 
-                data: { 
-                  stroke: '#22C55E', 
-                  strokeWidth: 2,
-                  strokeDasharray: '5,5'
-                } 
-              }}
-            />
-            <VictoryLine
-              x={() => usl}
-              style={{ 
-                data: { 
-                  stroke: '#EF4444', 
-                  strokeWidth: 2,
-                  strokeDasharray: '5,5'
-                } 
-              }}
+            {curves && (
+              <VictoryLine
+                data={curves.within}
+                style={{ data: { stroke: '#7C3AED', strokeWidth: 2 } }}
+              />
+            )}
+            {curves && (
+              <VictoryLine
+                data={curves.overall}
+                style={{ data: { stroke: '#111827', strokeWidth: 2, strokeDasharray: '6,3' } }}
+              />
+            )}
+            {lsl !== null && (
+              <VictoryLine
+                x={() => lsl}
+                style={{ 
+                  data: { 
+                    stroke: '#EF4444', 
+                    strokeWidth: 2,
+                    strokeDasharray: '5,5'
+                  } 
+                }}
+              />
+            )}
+            {target !== null && (
+              <VictoryLine
+                x={() => target}
+                style={{ 
+                  data: { 
+                    stroke: '#22C55E', 
+                    strokeWidth: 2,
+                    strokeDasharray: '5,5'
+                  } 
+                }}
+              />
+            )}
+            {usl !== null && (
+              <VictoryLine
+                x={() => usl}
+                style={{ 
+                  data: { 
+                    stroke: '#EF4444', 
+                    strokeWidth: 2,
+                    strokeDasharray: '5,5'
+                  } 
+                }}
+              />
+            )}
+            <VictoryScatter
+              data={markers.map(marker => ({ ...marker, y: yTop }))}
+              size={0}
+              labels={({ datum }) => datum.label}
+              labelComponent={<VictoryLabel style={{ fontSize: 11, fontWeight: '600', fill: '#374151' }} />}
             />
           </VictoryChart>
         </View>
@@ -120,28 +275,44 @@ export function HistogramChart({ data, lsl, usl, target, numberOfBins, stats }:
           <View style={[styles.legendColor, { backgroundColor: '#93C5FD' }]} />
           <Text style={styles.legendText}>Within Spec</Text>
         </View>
-        <View style={styles.legendItem}>
-          <View style={[styles.legendColor, { backgroundColor: '#22C55E' }]} />
-          <Text style={styles.legendText}>Target Range</Text>
-        </View>
+        {target !== null && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendColor, { backgroundColor: '#22C55E' }]} />
+            <Text style={styles.legendText}>Target Range</Text>
+          </View>
+        )}
         <View style={styles.legendItem}>
           <View style={[styles.legendColor, { backgroundColor: '#FCA5A5' }]} />
           <Text style={styles.legendText}>Out of Spec</Text>
         </View>
+        {curves && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendColor, { backgroundColor: '#7C3AED' }]} />
+            <Text style={styles.legendText}>Within</Text>
+          </View>
+        )}
+        {curves && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendColor, { backgroundColor: '#111827' }]} />
+            <Text style={styles.legendText}>Overall</Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.limits}>
         <View style={styles.limitItem}>
           <Text style={styles.limitLabel}>LSL</Text>
-          <Text style={styles.limitValue}>{lsl.toFixed(3)}</Text>
-        </View>
-        <View style={styles.limitItem}>
-          <Text style={styles.limitLabel}>Target</Text>
-          <Text style={styles.limitValue}>{target.toFixed(3)}</Text>
+          <Text style={styles.limitValue}>{lsl !== null ? lsl.toFixed(3) : 'None'}</Text>
         </View>
+        {target !== null && (
+          <View style={styles.limitItem}>
+            <Text style={styles.limitLabel}>Target</Text>
+            <Text style={styles.limitValue}>{target.toFixed(3)}</Text>
+          </View>
+        )}
         <View style={styles.limitItem}>
           <Text style={styles.limitLabel}>USL</Text>
-          <Text style={styles.limitValue}>{usl.toFixed(3)}</Text>
+          <Text style={styles.limitValue}>{usl !== null ? usl.toFixed(3) : 'None'}</Text>
         </View>
       </View>
     </View>
@@ -192,8 +363,46 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1F2937',
   },
+  binning: {
+    marginBottom: 12,
+  },
+  picker: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    height: 48,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  inputBox: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 8,
+    fontSize: 14,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
   legend: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
     gap: 16,
     marginTop: 16,
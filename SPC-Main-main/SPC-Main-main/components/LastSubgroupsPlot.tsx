@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel } from 'victory-native';
+import { Subgroup } from '../lib/spc';
+
+interface LastSubgroupsPlotProps {
+  subgroups: Subgroup[];
+  count?: number;
+}
+
+// Every reading of the most recent subgroups, to show spread and any
+// outliers that the subgroup means hide
+export function LastSubgroupsPlot({ subgroups, count = 25 }: LastSubgroupsPlotProps) {
+  const chartWidth = Dimensions.get('window').width - 40;
+  const first = Math.max(subgroups.length - count, 0);
+  const recent = subgroups.slice(first);
+
+  const readings = recent.flatMap((sg, i) => sg.values.map(y => ({ x: first + i + 1, y })));
+  const means = recent.map((sg, i) => ({ x: first + i + 1, y: sg.mean }));
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' },
+    axisLabel: { fontSize: 14, padding: 35, fill: '#111827' }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Last {recent.length} Subgroups</Text>
+      <Text style={styles.formula}>Individual readings, with the line through the subgroup means</Text>
+
+      <VictoryChart
+        width={chartWidth}
+        height={260}
+        padding={{ top: 20, bottom: 50, left: 60, right: 20 }}
+        domainPadding={{ x: 10 }}
+      >
+        <VictoryAxis
+          tickFormat={(t) => `G${t}`}
+          style={axisStyle}
+          label="Subgroups"
+          axisLabelComponent={<VictoryLabel dy={35} />}
+        />
+        <VictoryAxis
+          dependentAxis
+          style={axisStyle}
+          label="Reading"
+          axisLabelComponent={<VictoryLabel dy={-45} />}
+        />
+        <VictoryLine data={means} style={{ data: { stroke: '#10B981', strokeWidth: 1.5 } }} />
+        <VictoryScatter
+          data={readings}
+          size={3}
+          style={{ data: { fill: '#3B82F6', fillOpacity: 0.8 } }}
+        />
+      </VictoryChart>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+});
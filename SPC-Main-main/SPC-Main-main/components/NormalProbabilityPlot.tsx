@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { VictoryChart, VictoryLine, VictoryScatter, VictoryAxis, VictoryLabel } from 'victory-native';
+import { calculateProbabilityPlot, mean, NormalityResult, NormalityTestResult, sampleStdDev } from '../lib/spc';
+
+interface NormalProbabilityPlotProps {
+  values: number[];
+  normality: NormalityResult;
+}
+
+const formatPValue = (p: number) => (p < 0.001 ? '< 0.001' : p.toFixed(3));
+
+export function NormalProbabilityPlot({ values, normality }: NormalProbabilityPlotProps) {
+  const points = useMemo(() => calculateProbabilityPlot(values), [values]);
+  const chartWidth = Dimensions.get('window').width - 40;
+
+  // Reference line for a normal distribution with the sample mean and sigma
+  const m = mean(values);
+  const sd = sampleStdDev(values);
+  const zRange = points.length > 0 ? [points[0].x, points[points.length - 1].x] : [-3, 3];
+  const referenceLine = zRange.map(z => ({ x: z, y: m + sd * z }));
+
+  const axisStyle = {
+    axis: { stroke: '#374151', strokeWidth: 1 },
+    grid: { stroke: '#E5E7EB', strokeDasharray: '4,4' },
+    tickLabels: { fontSize: 12, padding: 5, fill: '#374151' },
+    axisLabel: { fontSize: 14, padding: 35, fill: '#111827' }
+  };
+
+  const renderTest = (label: string, symbol: string, test: NormalityTestResult | null) => (
+    <View style={styles.testRow}>
+      <Text style={styles.testLabel}>{label}</Text>
+      <Text style={styles.testValue}>
+        {test
+          ? `${symbol} = ${test.statistic.toFixed(4)}, p = ${formatPValue(test.pValue)}`
+          : 'Not enough data'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Normal Probability Plot</Text>
+      <Text style={styles.formula}>Readings against expected normal quantiles (Blom positions)</Text>
+
+      <VictoryChart
+        width={chartWidth}
+        height={300}
+        padding={{ top: 20, bottom: 50, left: 60, right: 20 }}
+      >
+        <VictoryAxis
+          style={axisStyle}
+          label="Normal Quantile (z)"
+          axisLabelComponent={<VictoryLabel dy={35} />}
+        />
+        <VictoryAxis
+          dependentAxis
+          style={axisStyle}
+          label="Reading"
+          axisLabelComponent={<VictoryLabel dy={-45} />}
+        />
+        <VictoryLine data={referenceLine} style={{ data: { stroke: '#10B981', strokeWidth: 1.5 } }} />
+        <VictoryScatter
+          data={points}
+          size={3}
+          style={{ data: { fill: '#3B82F6', fillOpacity: 0.8 } }}
+        />
+      </VictoryChart>
+
+      {renderTest('Anderson-Darling', 'A²', normality.andersonDarling)}
+      {renderTest('Shapiro-Wilk', 'W', normality.shapiroWilk)}
+
+      <Text style={[styles.verdict, { color: normality.isNormal ? '#16A34A' : '#DC2626' }]}>
+        {normality.isNormal
+          ? `Normality not rejected at α = ${normality.alpha} (n = ${normality.n})`
+          : `Normality rejected at α = ${normality.alpha} (n = ${normality.n})`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  formula: {
+    fontSize: 12,
+    color: '#64748B',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  testRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  testLabel: {
+    fontSize: 14,
+    color: '#4B5563',
+    flex: 1,
+  },
+  testValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  verdict: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+});
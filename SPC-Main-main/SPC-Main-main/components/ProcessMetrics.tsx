@@ -1,19 +1,33 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import {
+  CapabilityIntervals,
+  CHART_TYPES,
+  ChartType,
+  ConfidenceInterval,
+  DefectRates,
+  MIN_CAPABILITY_LOWER_BOUND,
+  NonNormalCapability,
+  NormalityResult,
+  PpmEstimate
+} from '../lib/spc';
 
 interface MetricCardProps {
   title: string;
   metrics: {
     label: string;
-    value: string | number;
+    // Null rows are left out, e.g. Cp on a one-sided spec
+    value: string | number | null;
     color?: string;
   }[];
+  warning?: string;
 }
 
-const MetricCard = ({ title, metrics }: MetricCardProps) => (
+const MetricCard = ({ title, metrics, warning }: MetricCardProps) => (
   <View style={styles.card}>
     <Text style={styles.cardTitle}>{title}</Text>
-    {metrics.map((metric, index) => (
+    {warning && <Text style={styles.warning}>{warning}</Text>}
+    {metrics.filter(metric => metric.value !== null).map((metric, index) => (
       <View key={index} style={styles.metricRow}>
         <Text style={styles.metricLabel}>{metric.label}</Text>
         <Text style={[styles.metricValue, metric.color && { color: metric.color }]}>
@@ -29,19 +43,70 @@ interface ProcessMetricsProps {
     xBar: number;
     stdDevOverall: number;
     stdDevWithin: number;
-    movingRange: number;
-    cp: number;
-    cpkUpper: number;
-    cpkLower: number;
+    spreadMean: number;
+    cp: number | null;
+    cpkUpper: number | null;
+    cpkLower: number | null;
     cpk: number;
-    pp: number;
-    ppu: number;
-    ppl: number;
+    pp: number | null;
+    ppu: number | null;
+    ppl: number | null;
     ppk: number;
+    stdDevWithinBasis: string;
+    stdDevOverallBasis: string;
   };
+  chartType: ChartType;
+  normality?: NormalityResult;
+  nonNormalCapability?: NonNormalCapability | null;
+  capabilityIntervals?: CapabilityIntervals;
+  defectRates?: DefectRates;
 }
 
-export function ProcessMetrics({ metrics }: ProcessMetricsProps) {
+const formatPpm = ({ belowLsl, aboveUsl, total }: PpmEstimate) =>
+  [
+    belowLsl !== null ? `< LSL ${belowLsl.toFixed(1)}` : null,
+    aboveUsl !== null ? `> USL ${aboveUsl.toFixed(1)}` : null,
+    `Total ${total.toFixed(1)}`
+  ].filter(part => part !== null).join(' · ');
+
+const formatPercent = (ppm: number) => `${(ppm / 1e4).toFixed(4)}%`;
+
+const isLowerBoundLow = (ci: ConfidenceInterval | null) =>
+  ci !== null && ci.lowerBound < MIN_CAPABILITY_LOWER_BOUND;
+
+const intervalRow = ([label, ci]: [string, ConfidenceInterval | null]) => ({
+  label,
+  value: ci && `${ci.lower.toFixed(3)} – ${ci.upper.toFixed(3)} · LB ${ci.lowerBound.toFixed(3)}`,
+  color: isLowerBoundLow(ci) ? '#DC2626' : '#16A34A'
+});
+
+export function ProcessMetrics({
+  metrics,
+  chartType,
+  normality,
+  nonNormalCapability,
+  capabilityIntervals,
+  defectRates
+}: ProcessMetricsProps) {
+  const intervals: [string, ConfidenceInterval | null][] = capabilityIntervals
+    ? [
+        ['Cp', capabilityIntervals.cp],
+        ['Cpk Upper', capabilityIntervals.cpu],
+        ['Cpk Lower', capabilityIntervals.cpl],
+        ['Cpk', capabilityIntervals.cpk],
+        ['Pp', capabilityIntervals.pp],
+        ['Ppu', capabilityIntervals.ppu],
+        ['Ppl', capabilityIntervals.ppl],
+        ['Ppk', capabilityIntervals.ppk]
+      ]
+    : [];
+  const lowBounds = intervals.filter(([, ci]) => isLowerBoundLow(ci)).map(([label]) => label);
+  const levelPercent = capabilityIntervals && `${Math.round(capabilityIntervals.level * 100)}%`;
+
+  const normalityWarning = normality && !normality.isNormal
+    ? 'Normality rejected (see Normal Probability Plot). Indices assume normal data and may misstate the defect rate.'
+    : undefined;
+
   return (
     <View style={styles.container}>
       <MetricCard
@@ -54,32 +119,91 @@ export function ProcessMetrics({ metrics }: ProcessMetricsProps) {
       <MetricCard
         title="Variation Metrics"
         metrics={[
-          { label: 'Standard Deviation (Overall)', value: metrics.stdDevOverall },
-          { label: 'Standard Deviation (Within)', value: metrics.stdDevWithin },
-          { label: 'Moving Range (R-bar)', value: metrics.movingRange }
+          { label: `Standard Deviation (Overall, ${metrics.stdDevOverallBasis})`, value: metrics.stdDevOverall },
+          { label: `Standard Deviation (Within, ${metrics.stdDevWithinBasis})`, value: metrics.stdDevWithin },
+          {
+            label: `${CHART_TYPES[chartType].spreadAxisLabel} Mean (${CHART_TYPES[chartType].spreadSymbol})`,
+            value: metrics.spreadMean
+          }
         ]}
       />
 
       <MetricCard
-        title="Process Capability (Short-term)"
+        title={`Process Capability (Short-term, σ within = ${metrics.stdDevWithinBasis})`}
         metrics={[
           { label: 'Cp', value: metrics.cp },
           { label: 'Cpk Upper', value: metrics.cpkUpper },
           { label: 'Cpk Lower', value: metrics.cpkLower },
           { label: 'Cpk', value: metrics.cpk }
         ]}
+        warning={normalityWarning}
       />
 
       <MetricCard
-        title="Process Performance (Long-term)"
+        title={`Process Performance (Long-term, σ overall = ${metrics.stdDevOverallBasis})`}
         metrics={[
           { label: 'Pp', value: metrics.pp },
           { label: 'Ppu', value: metrics.ppu },
           { label: 'Ppl', value: metrics.ppl },
           { label: 'Ppk', value: metrics.ppk }
         ]}
+        warning={normalityWarning}
       />
 
+      {capabilityIntervals && (
+        <MetricCard
+          title={`Confidence Intervals (${levelPercent} two-sided, LB = ${levelPercent} lower bound)`}
+          metrics={intervals.map(intervalRow)}
+          warning={lowBounds.length > 0
+            ? `Lower bound below ${MIN_CAPABILITY_LOWER_BOUND} on ${lowBounds.join(', ')}. ` +
+              'The point estimate alone may overstate capability.'
+            : undefined}
+        />
+      )}
+
+      {defectRates && (
+        <MetricCard
+          title="Defect Rate (PPM)"
+          metrics={[
+            { label: 'Observed', value: formatPpm(defectRates.observed) },
+            {
+              label: 'Observed out of spec',
+              value: `${defectRates.observedOutOfSpec} readings (${formatPercent(defectRates.observed.total)})`,
+              color: defectRates.observedOutOfSpec > 0 ? '#DC2626' : '#16A34A'
+            },
+            { label: 'Expected (within)', value: formatPpm(defectRates.expectedWithin) },
+            { label: 'Expected (overall)', value: formatPpm(defectRates.expectedOverall) },
+            { label: 'Expected out of spec (overall)', value: formatPercent(defectRates.expectedOverall.total) },
+            { label: 'Sigma Level (Z.bench, overall)', value: defectRates.sigmaLevel.toFixed(2) },
+            { label: 'Sigma Level (with 1.5σ shift)', value: defectRates.sigmaLevelShifted.toFixed(2) }
+          ]}
+          warning={normalityWarning}
+        />
+      )}
+
+      {nonNormalCapability && (
+        <MetricCard
+          title={`Non-normal Capability (${nonNormalCapability.description})`}
+          metrics={[
+            ...nonNormalCapability.parameters,
+            { label: 'Cp', value: nonNormalCapability.cp },
+            { label: 'Cpk', value: nonNormalCapability.cpk },
+            { label: 'Pp', value: nonNormalCapability.pp },
+            { label: 'Ppu', value: nonNormalCapability.ppu },
+            { label: 'Ppl', value: nonNormalCapability.ppl },
+            { label: 'Ppk', value: nonNormalCapability.ppk },
+            ...(nonNormalCapability.transformedNormality
+              ? [{
+                  label: 'Normality after transform (p)',
+                  value: nonNormalCapability.transformedNormality.pValue.toFixed(3),
+                  color: nonNormalCapability.transformedNormality.pValue < 0.05 ? '#DC2626' : '#16A34A'
+                }]
+              : [])
+          ]}
+          warning={nonNormalCapability.warning ?? undefined}
+        />
+      )}
+
       <MetricCard
         title="3S Analysis"
         metrics={[
@@ -154,6 +278,14 @@ const styles = StyleSheet.create({
     color: '#1D4ED8',
     marginBottom: 12,
   },
+  warning: {
+    fontSize: 13,
+    color: '#B45309',
+    backgroundColor: '#FFFBEB',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
   metricRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { CHART_TYPES, ChartSignal, ChartType, NELSON_RULES } from '../lib/spc';
+
+interface SignalsListProps {
+  signals: ChartSignal[];
+  chartType: ChartType;
+}
+
+export function SignalsList({ signals, chartType }: SignalsListProps) {
+  const chartInfo = CHART_TYPES[chartType];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Signals</Text>
+
+      {signals.length === 0 ? (
+        <Text style={styles.emptyText}>No enabled rule is violated</Text>
+      ) : (
+        signals.map((signal, index) => (
+          <View key={`${signal.chart}-${signal.subgroup}-${index}`} style={styles.signalRow}>
+            <View style={styles.signalHeader}>
+              <Text style={styles.subgroup}>G{signal.subgroup}</Text>
+              <Text style={styles.chartName}>
+                {signal.chart === 'center' ? chartInfo.centerTitle : chartInfo.spreadTitle}
+              </Text>
+            </View>
+            <Text style={styles.detail}>
+              {format(new Date(signal.trnDate), 'dd/MM/yyyy HH:mm')} · {signal.shifts.join(', ')}
+            </Text>
+            {signal.rules.map(rule => (
+              <Text key={rule} style={styles.rule}>
+                Rule {rule}: {NELSON_RULES[rule - 1].description}
+              </Text>
+            ))}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#16A34A',
+  },
+  signalRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  signalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  subgroup: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  chartName: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#374151',
+    marginBottom: 2,
+  },
+  rule: {
+    fontSize: 12,
+    color: '#4B5563',
+  },
+});
@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import { TriangleAlert } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { SpecHandling, SpecRevision, SpecSummary } from '../lib/spc';
+
+interface SpecRevisionNoticeProps {
+  specs: SpecSummary;
+  onChange: (handling: SpecHandling, revision?: number) => void;
+}
+
+const PERCENT_OF_TOLERANCE = 'percent-of-tolerance';
+
+const formatDate = (iso: string) => format(new Date(iso), 'dd/MM/yyyy');
+
+const formatLimit = (value: number | null) => value === null ? 'none' : String(value);
+
+const describeRevision = (revision: SpecRevision, index: number) =>
+  `Rev ${index + 1}: ${formatLimit(revision.lsl)} – ${formatLimit(revision.usl)}`;
+
+export function SpecRevisionNotice({ specs, onChange }: SpecRevisionNoticeProps) {
+  const { revisions, handling, revision } = specs;
+  const selected = handling === PERCENT_OF_TOLERANCE ? PERCENT_OF_TOLERANCE : String(revision);
+
+  const handleChange = (value: string) => {
+    if (value === PERCENT_OF_TOLERANCE) {
+      onChange('percent-of-tolerance');
+    } else {
+      onChange('revision', Number(value));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TriangleAlert size={18} color="#B45309" />
+        <Text style={styles.title}>Specification Changes</Text>
+      </View>
+
+      {revisions.length > 1 && (
+        <Text style={styles.warning}>
+          The spec limits change {revisions.length - 1} time{revisions.length > 2 ? 's' : ''} in
+          the selected range. Readings from different revisions can't share one set of indices.
+        </Text>
+      )}
+
+      {revisions.map((r, i) => (
+        <View key={i} style={styles.row}>
+          <Text style={[styles.cell, styles.revisionCell]}>{describeRevision(r, i)}</Text>
+          <Text style={styles.cell}>{formatDate(r.firstDate)} – {formatDate(r.lastDate)}</Text>
+          <Text style={[styles.cell, styles.countCell]}>{r.count} readings</Text>
+        </View>
+      ))}
+
+      <Text style={styles.label}>Analyze</Text>
+      <Picker selectedValue={selected} onValueChange={handleChange} style={styles.picker}>
+        {revisions.map((r, i) => (
+          <Picker.Item key={i} label={`${describeRevision(r, i)} only`} value={String(i)} />
+        ))}
+        <Picker.Item label="All readings as % of tolerance" value={PERCENT_OF_TOLERANCE} />
+      </Picker>
+
+      {handling === PERCENT_OF_TOLERANCE && (
+        <Text style={styles.hint}>
+          Each reading is charted as (x − LSL) / (USL − LSL) × 100 using its own spec, so LSL = 0 and USL = 100.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  warning: {
+    fontSize: 13,
+    color: '#B45309',
+    backgroundColor: '#FFFBEB',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#374151',
+  },
+  revisionCell: {
+    fontWeight: '600',
+  },
+  countCell: {
+    textAlign: 'right',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  picker: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    height: 48,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { MIN_STAGE_SUBGROUPS, SpcStage } from '../lib/spc';
+
+interface StageCapabilityProps {
+  stages: SpcStage[];
+}
+
+const indexColor = (value: number) => (value >= 1.33 ? '#16A34A' : '#DC2626');
+
+export function StageCapability({ stages }: StageCapabilityProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Capability by Stage</Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          <View style={[styles.row, styles.headerRow]}>
+            <Text style={[styles.cell, styles.stageCell, styles.headerText]}>Stage</Text>
+            <Text style={[styles.cell, styles.headerText]}>X̄</Text>
+            <Text style={[styles.cell, styles.headerText]}>σ within</Text>
+            <Text style={[styles.cell, styles.headerText]}>σ overall</Text>
+            <Text style={[styles.cell, styles.headerText]}>Cp</Text>
+            <Text style={[styles.cell, styles.headerText]}>Cpk</Text>
+            <Text style={[styles.cell, styles.headerText]}>Pp</Text>
+            <Text style={[styles.cell, styles.headerText]}>Ppk</Text>
+          </View>
+          {stages.map(stage => (
+            <View key={stage.start} style={styles.row}>
+              <Text style={[styles.cell, styles.stageCell]}>
+                {stage.label}{stage.merged.length > 0 && ` + ${stage.merged.join(', ')}`} (G{stage.start}-G{stage.end})
+              </Text>
+              <Text style={styles.cell}>{stage.xBar.toFixed(4)}</Text>
+              <Text style={styles.cell}>{stage.stdDevWithin}</Text>
+              <Text style={styles.cell}>{stage.stdDevOverall}</Text>
+              <Text style={styles.cell}>{stage.cp ?? '—'}</Text>
+              <Text style={[styles.cell, { color: indexColor(stage.cpk) }]}>{stage.cpk}</Text>
+              <Text style={styles.cell}>{stage.pp ?? '—'}</Text>
+              <Text style={[styles.cell, { color: indexColor(stage.ppk) }]}>{stage.ppk}</Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+      {stages.some(stage => stage.merged.length > 0) && (
+        <Text style={styles.note}>
+          Runs with fewer than {MIN_STAGE_SUBGROUPS} subgroups share the limits of the stage they are listed with.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerRow: {
+    borderBottomColor: '#D1D5DB',
+  },
+  cell: {
+    width: 72,
+    fontSize: 13,
+    color: '#374151',
+    textAlign: 'right',
+  },
+  stageCell: {
+    width: 180,
+    textAlign: 'left',
+  },
+  headerText: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  note: {
+    fontSize: 12,
+    color: '#B45309',
+    marginTop: 8,
+  },
+});
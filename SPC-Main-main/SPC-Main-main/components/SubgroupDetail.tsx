@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView, TextInput } from 'react-native';
+import { X } from 'lucide-react-native';
+import { format } from 'date-fns';
+import { PointExclusion, Subgroup } from '../lib/spc';
+
+interface SubgroupDetailProps {
+  subgroupNumber: number | null;
+  subgroup?: Subgroup;
+  // Extra statistics to show beside the mean, e.g. moving range or std dev
+  extraStats?: { label: string; value: number }[];
+  exclusion?: PointExclusion;
+  onExclude?: (reason: string) => void;
+  onRestore?: () => void;
+  isStageBreak?: boolean;
+  onToggleStageBreak?: () => void;
+  onClose: () => void;
+}
+
+export function SubgroupDetail({
+  subgroupNumber,
+  subgroup,
+  extraStats = [],
+  exclusion,
+  onExclude,
+  onRestore,
+  isStageBreak,
+  onToggleStageBreak,
+  onClose
+}: SubgroupDetailProps) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [subgroupNumber]);
+
+  return (
+    <Modal
+      visible={subgroupNumber !== null && !!subgroup}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        {subgroup && (
+          <Pressable style={styles.card} onPress={() => {}}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Subgroup G{subgroupNumber}</Text>
+              <Pressable onPress={onClose} hitSlop={8}>
+                <X size={20} color="#4B5563" />
+              </Pressable>
+            </View>
+
+            <View style={styles.statsRow}>
+              <View style={styles.statBox}>
+                <Text style={styles.statLabel}>Mean</Text>
+                <Text style={styles.statValue}>{subgroup.mean.toFixed(4)}</Text>
+              </View>
+              {subgroup.values.length > 1 && (
+                <View style={styles.statBox}>
+                  <Text style={styles.statLabel}>Range</Text>
+                  <Text style={styles.statValue}>{subgroup.range.toFixed(4)}</Text>
+                </View>
+              )}
+              {extraStats.map(stat => (
+                <View key={stat.label} style={styles.statBox}>
+                  <Text style={styles.statLabel}>{stat.label}</Text>
+                  <Text style={styles.statValue}>{stat.value.toFixed(4)}</Text>
+                </View>
+              ))}
+            </View>
+
+            {exclusion ? (
+              <View style={styles.exclusionBox}>
+                <Text style={styles.exclusionTitle}>Excluded from limits</Text>
+                <Text style={styles.exclusionReason}>{exclusion.reason}</Text>
+                {onRestore && (
+                  <Pressable
+                    style={({ pressed }) => [styles.actionButton, styles.restoreButton, pressed && styles.buttonPressed]}
+                    onPress={onRestore}
+                  >
+                    <Text style={[styles.actionText, styles.restoreText]}>Include Again</Text>
+                  </Pressable>
+                )}
+              </View>
+            ) : onExclude && (
+              <View style={styles.exclusionBox}>
+                <TextInput
+                  style={styles.reasonInput}
+                  placeholder="Reason for excluding (required)"
+                  value={reason}
+                  onChangeText={setReason}
+                />
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.actionButton,
+                    styles.excludeButton,
+                    pressed && styles.buttonPressed,
+                    !reason.trim() && styles.buttonDisabled
+                  ]}
+                  onPress={() => onExclude(reason.trim())}
+                  disabled={!reason.trim()}
+                >
+                  <Text style={styles.actionText}>Exclude from Limits</Text>
+                </Pressable>
+              </View>
+            )}
+
+            {onToggleStageBreak && (
+              <Pressable
+                style={({ pressed }) => [styles.actionButton, styles.restoreButton, styles.stageButton, pressed && styles.buttonPressed]}
+                onPress={onToggleStageBreak}
+              >
+                <Text style={[styles.actionText, styles.restoreText]}>
+                  {isStageBreak ? 'Remove Stage Break' : 'Start New Stage Here'}
+                </Text>
+              </Pressable>
+            )}
+
+            <View style={[styles.sampleRow, styles.sampleHeader]}>
+              <Text style={[styles.sampleCell, styles.dateCell, styles.headerText]}>Date</Text>
+              <Text style={[styles.sampleCell, styles.headerText]}>Shift</Text>
+              <Text style={[styles.sampleCell, styles.valueCell, styles.headerText]}>Reading</Text>
+            </View>
+            <ScrollView style={styles.samples}>
+              {subgroup.samples.map((sample, index) => (
+                <View key={index} style={styles.sampleRow}>
+                  <Text style={[styles.sampleCell, styles.dateCell]}>
+                    {format(new Date(sample.trnDate), 'dd/MM/yyyy HH:mm:ss')}
+                  </Text>
+                  <Text style={styles.sampleCell}>
+                    {sample.shiftName || `Shift ${sample.shiftCode}`}
+                  </Text>
+                  <Text style={[styles.sampleCell, styles.valueCell]}>
+                    {sample.actualSpecification}
+                  </Text>
+                </View>
+              ))}
+            </ScrollView>
+          </Pressable>
+        )}
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  statBox: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    padding: 8,
+    alignItems: 'center',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#374151',
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  exclusionBox: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 8,
+    marginBottom: 12,
+    gap: 8,
+  },
+  exclusionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B45309',
+  },
+  exclusionReason: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  reasonInput: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 8,
+    fontSize: 13,
+  },
+  actionButton: {
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+  },
+  excludeButton: {
+    backgroundColor: '#B45309',
+  },
+  restoreButton: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  stageButton: {
+    marginBottom: 12,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  restoreText: {
+    color: '#374151',
+  },
+  samples: {
+    flexGrow: 0,
+  },
+  sampleRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  sampleHeader: {
+    borderBottomColor: '#D1D5DB',
+  },
+  sampleCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  dateCell: {
+    flex: 2,
+  },
+  valueCell: {
+    textAlign: 'right',
+  },
+  headerText: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+});
@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ControlLimitBaseline, getBaselineKey } from './spc';
+
+// Phase I baselines, one per material/operation/gauge
+
+const storageKey = (materialCode: string, operationCode: string, guageCode: string) =>
+  `spc:baseline:${getBaselineKey(materialCode, operationCode, guageCode)}`;
+
+export const loadBaseline = async (
+  materialCode: string,
+  operationCode: string,
+  guageCode: string
+): Promise<ControlLimitBaseline | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(materialCode, operationCode, guageCode));
+    return stored ? (JSON.parse(stored) as ControlLimitBaseline) : null;
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Baseline load error:', error);
+    }
+    throw error;
+  }
+};
+
+export const saveBaseline = async (baseline: ControlLimitBaseline): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      storageKey(baseline.materialCode, baseline.operationCode, baseline.guageCode),
+      JSON.stringify(baseline)
+    );
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Baseline save error:', error);
+    }
+    throw error;
+  }
+};
+
+export const removeBaseline = async (
+  materialCode: string,
+  operationCode: string,
+  guageCode: string
+): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(storageKey(materialCode, operationCode, guageCode));
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Baseline remove error:', error);
+    }
+    throw error;
+  }
+};
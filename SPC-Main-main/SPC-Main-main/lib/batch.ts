@@ -0,0 +1,17 @@
+// Runs an async task over items a few at a time, so a plant-wide sweep
+// doesn't send hundreds of requests at once. Results keep the input order.
+// Tasks should catch their own errors; one rejection fails the whole run.
+export const mapInBatches = async <T, R>(
+  items: T[],
+  batchSize: number,
+  task: (item: T) => Promise<R>,
+  onProgress?: (done: number, total: number) => void
+): Promise<R[]> => {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    const batch = await Promise.all(items.slice(i, i + batchSize).map(task));
+    results.push(...batch);
+    onProgress?.(results.length, items.length);
+  }
+  return results;
+};
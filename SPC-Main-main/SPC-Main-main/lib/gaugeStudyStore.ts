@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GaugeStudy, getBaselineKey } from './spc';
+
+// The latest Gauge R&R study, one per material/operation/gauge
+
+const storageKey = (materialCode: string, operationCode: string, guageCode: string) =>
+  `spc:gaugeStudy:${getBaselineKey(materialCode, operationCode, guageCode)}`;
+
+export const loadGaugeStudy = async (
+  materialCode: string,
+  operationCode: string,
+  guageCode: string
+): Promise<GaugeStudy | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(materialCode, operationCode, guageCode));
+    return stored ? (JSON.parse(stored) as GaugeStudy) : null;
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Gauge study load error:', error);
+    }
+    throw error;
+  }
+};
+
+export const saveGaugeStudy = async (study: GaugeStudy): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      storageKey(study.materialCode, study.operationCode, study.guageCode),
+      JSON.stringify(study)
+    );
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Gauge study save error:', error);
+    }
+    throw error;
+  }
+};
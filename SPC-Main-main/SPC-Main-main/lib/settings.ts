@@ -0,0 +1,29 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ALL_NELSON_RULES, NelsonRule } from './spc';
+
+// Plant-level preferences, stored on the device the plant uses for SPC
+
+const ENABLED_RULES_KEY = 'spc:enabledNelsonRules';
+
+export const loadEnabledRules = async (): Promise<NelsonRule[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(ENABLED_RULES_KEY);
+    return stored ? (JSON.parse(stored) as NelsonRule[]) : ALL_NELSON_RULES;
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Rule settings load error:', error);
+    }
+    return ALL_NELSON_RULES;
+  }
+};
+
+export const saveEnabledRules = async (rules: NelsonRule[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ENABLED_RULES_KEY, JSON.stringify(rules));
+  } catch (error) {
+    if (__DEV__) {
+      console.error('Rule settings save error:', error);
+    }
+    throw error;
+  }
+};
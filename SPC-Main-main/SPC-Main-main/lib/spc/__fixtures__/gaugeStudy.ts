@@ -0,0 +1,46 @@
+import { GaugeStudy } from '../gaugeRR';
+
+// AIAG MSA 4th edition reference study: 3 appraisers × 10 parts × 3 trials,
+// here as [operator][trial][part]
+const AIAG_READINGS = [
+  [
+    [0.29, -0.56, 1.34, 0.47, -0.8, 0.02, 0.59, -0.31, 2.26, -1.36],
+    [0.41, -0.68, 1.17, 0.5, -0.92, -0.11, 0.75, -0.2, 1.99, -1.25],
+    [0.64, -0.58, 1.27, 0.64, -0.84, -0.21, 0.66, -0.17, 2.01, -1.31]
+  ],
+  [
+    [0.08, -0.47, 1.19, 0.01, -0.56, -0.2, 0.47, -0.63, 1.8, -1.68],
+    [0.25, -1.22, 0.94, 1.03, -1.2, 0.22, 0.55, 0.08, 2.12, -1.62],
+    [0.07, -0.68, 1.34, 0.2, -1.28, 0.06, 0.83, -0.34, 2.19, -1.5]
+  ],
+  [
+    [0.04, -1.38, 0.88, 0.14, -1.46, -0.29, 0.02, -0.46, 1.77, -1.49],
+    [-0.11, -1.13, 1.09, 0.2, -1.07, -0.67, 0.01, -0.56, 1.45, -1.77],
+    [-0.15, -0.96, 0.67, 0.11, -1.45, -0.49, 0.21, -0.49, 1.87, -2.16]
+  ]
+];
+
+export const aiagStudy = (): GaugeStudy => ({
+  materialCode: 'M1',
+  operationCode: 'OP10',
+  guageCode: 'G1',
+  guageName: 'Reference gauge',
+  lsl: -3,
+  usl: 3,
+  operators: ['A', 'B', 'C'],
+  parts: 10,
+  trials: 3,
+  measurements: AIAG_READINGS.map(byTrial => byTrial[0].map((_, p) => byTrial.map(trial => trial[p]))),
+  method: 'anova',
+  conductedAt: '2024-01-01T00:00:00.000Z',
+  conductedBy: 'QA'
+});
+
+// The same study as "operator, part, value" rows
+export const aiagCsv = (): string => {
+  const { operators, measurements } = aiagStudy();
+  const rows = operators.flatMap((operator, o) =>
+    measurements[o].flatMap((trials, p) => trials.map(value => `${operator},${p + 1},${value}`))
+  );
+  return ['Operator,Part,Value', ...rows].join('\n');
+};
@@ -0,0 +1,51 @@
+import { InspectionData } from '../types';
+
+interface ReadingOptions {
+  lsl?: string;
+  usl?: string;
+  // First reading time; later readings follow at one-minute steps
+  start?: string;
+  shiftCode?: number;
+  shiftName?: string;
+}
+
+// Inspection records for a list of readings, in time order
+export const readings = (
+  values: number[],
+  { lsl = '9', usl = '11', start = '2024-01-01T06:00:00Z', shiftCode = 1, shiftName = 'A' }: ReadingOptions = {}
+): InspectionData[] =>
+  values.map((value, i) => ({
+    ActualSpecification: String(value),
+    FromSpecification: lsl,
+    ToSpecification: usl,
+    ShiftCode: shiftCode,
+    ShiftName: shiftName,
+    TrnDate: new Date(new Date(start).getTime() + i * 60000).toISOString()
+  }));
+
+// 50 readings from N(10, 0.1), a well-behaved process
+export const NORMAL_READINGS = [
+  10.05, 9.96, 10.02, 9.89, 10.11, 10.01, 9.94, 10.08, 9.99, 10.03,
+  9.92, 10.14, 10.0, 9.97, 10.06, 9.88, 10.04, 10.09, 9.95, 10.02,
+  10.07, 9.93, 9.98, 10.12, 10.01, 9.9, 10.03, 9.96, 10.1, 10.0,
+  9.94, 10.05, 9.99, 10.08, 9.91, 10.02, 10.13, 9.97, 10.04, 9.95,
+  10.06, 9.87, 10.0, 10.09, 9.98, 10.03, 9.92, 10.07, 10.01, 9.96
+];
+
+// Montgomery, Introduction to Statistical Quality Control, Table 9.1:
+// individuals from N(10, 1) with the mean shifted to 11 from reading 21
+export const MONTGOMERY_CUSUM_READINGS = [
+  9.45, 7.99, 9.29, 11.66, 12.16, 10.18, 8.04, 11.46, 9.2, 10.34,
+  9.03, 11.47, 10.51, 9.4, 10.08, 9.37, 10.62, 10.31, 8.52, 10.84,
+  10.9, 9.33, 12.29, 11.5, 10.6, 11.08, 10.38, 11.62, 11.31, 10.52
+];
+
+// Normal readings around 10 with σ ≈ 0.02, whose best Johnson fit is an SB
+// curve bounded at 9.91 to 10.06, inside an LSL of 9.9
+export const SB_BOUNDED_READINGS = [
+  9.977, 10.015, 9.963, 10.014, 9.976, 10, 10.018, 10.011, 10.01, 10.012,
+  9.993, 9.937, 9.986, 10, 9.984, 9.994, 9.983, 9.978, 10.015, 10.012,
+  10.021, 10.014, 9.997, 9.961, 9.965, 10.026, 10.014, 9.978, 9.975, 10.007,
+  9.965, 10.009, 10.047, 10.018, 9.994, 10.032, 10.024, 9.967, 10.023, 9.986,
+  9.97, 10.013, 10.004, 10.016, 10.023, 9.974, 10.009, 9.984, 9.995, 10.012
+];
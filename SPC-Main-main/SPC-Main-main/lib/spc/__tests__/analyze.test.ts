@@ -0,0 +1,43 @@
+import { analyzeInspectionData } from '../analyze';
+import { SpcAnalysisError } from '../errors';
+import { NORMAL_READINGS, readings } from '../__fixtures__/inspectionData';
+
+describe('analyzeInspectionData', () => {
+  it('charts X̄-R subgroups and reports limits and capability', () => {
+    const analysis = analyzeInspectionData(
+      readings([1, 2, 3, 2, 3, 4, 3, 4, 5], { lsl: '0', usl: '6' }),
+      { sampleSize: 3, chartType: 'xbar-r' }
+    );
+    const { limits } = analysis.controlCharts;
+    expect(analysis.subgroups).toHaveLength(3);
+    expect(limits.xBarMean).toBe(3);
+    expect(limits.xBarUcl).toBeCloseTo(5.046, 3);
+    expect(limits.spreadUcl).toBeCloseTo(5.148, 3);
+    // σ within = R̄/d2 = 2/1.693
+    expect(analysis.metrics.stdDevWithin).toBeCloseTo(2 / 1.693, 4);
+    expect(analysis.metrics.cp).toBeCloseTo(6 / (6 * (2 / 1.693)), 3);
+  });
+
+  it('charts individuals with a sample size of 1', () => {
+    const analysis = analyzeInspectionData(readings(NORMAL_READINGS), { sampleSize: 1, chartType: 'i-mr' });
+    expect(analysis.controlCharts.xBarData).toHaveLength(NORMAL_READINGS.length);
+    expect(analysis.controlCharts.spreadData).toHaveLength(NORMAL_READINGS.length - 1);
+    expect(analysis.metrics.xBar).toBeCloseTo(10.0, 1);
+    expect(analysis.distribution.values).toEqual(NORMAL_READINGS);
+  });
+
+  it('leaves excluded subgroups out of the limits but keeps them on the chart', () => {
+    const data = readings([10, 10.1, 9.9, 10, 12, 10.05, 9.95]);
+    const options = { sampleSize: 1, chartType: 'i-mr' as const };
+    const all = analyzeInspectionData(data, options);
+    const excluded = analyzeInspectionData(data, { ...options, exclusions: [{ subgroup: 5, reason: 'Bad part' }] });
+    expect(excluded.controlCharts.xBarData).toHaveLength(7);
+    expect(excluded.controlCharts.limits.xBarMean).toBeLessThan(all.controlCharts.limits.xBarMean);
+  });
+
+  it('reports problems the user can fix as SpcAnalysisError', () => {
+    expect(() => analyzeInspectionData([], { sampleSize: 1, chartType: 'i-mr' })).toThrow(SpcAnalysisError);
+    expect(() => analyzeInspectionData(readings([1, 2, 3]), { sampleSize: 1, chartType: 'xbar-r' }))
+      .toThrow('charts need a sample size of at least 2');
+  });
+});
@@ -0,0 +1,27 @@
+import { analyzeAttributeData } from '../attributes';
+import { readings } from '../__fixtures__/inspectionData';
+
+// 40 readings inside 9-11 with one out-of-spec reading in every ten
+const data = () => readings(Array.from({ length: 40 }, (_, i) => (i % 10 === 9 ? 11.5 : 10)));
+
+describe('analyzeAttributeData', () => {
+  it('charts the proportion nonconforming per subgroup', () => {
+    const analysis = analyzeAttributeData(data(), { chartType: 'p', grouping: 'subgroup', subgroupSize: 10 });
+    expect(analysis.center).toBeCloseTo(0.1);
+    expect(analysis.points.map(p => p.y)).toEqual([0.1, 0.1, 0.1, 0.1]);
+    expect(analysis.points[0].ucl).toBeCloseTo(0.1 + 3 * Math.sqrt(0.009));
+  });
+
+  it('counts each out-of-spec reading as one defect on a c chart', () => {
+    const analysis = analyzeAttributeData(data(), { chartType: 'c', grouping: 'subgroup', subgroupSize: 5 });
+    expect(analysis.points.map(p => p.y)).toEqual([0, 1, 0, 1, 0, 1, 0, 1]);
+    expect(analysis.center).toBeCloseTo(0.5);
+  });
+
+  it('rejects p and np groups too small for binomial limits', () => {
+    expect(() => analyzeAttributeData(data(), { chartType: 'p', grouping: 'subgroup', subgroupSize: 1 }))
+      .toThrow('p charts need at least 10 readings per group, but G1 has 1');
+    expect(() => analyzeAttributeData(data(), { chartType: 'np', grouping: 'subgroup', subgroupSize: 5 }))
+      .toThrow('np charts need at least 10 readings per group');
+  });
+});
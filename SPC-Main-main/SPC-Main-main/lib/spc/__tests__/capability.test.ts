@@ -0,0 +1,51 @@
+import {
+  calculateCapability,
+  clampCapabilityIndex,
+  minCapabilityIndex,
+  parseSpecLimits,
+  validateSpecLimits
+} from '../capability';
+import { readings } from '../__fixtures__/inspectionData';
+
+describe('calculateCapability', () => {
+  // Montgomery's piston rings: σ̂ = R̄/d2 = 0.023/2.326, specs 74.000 ± 0.05
+  it('reproduces the piston ring Cp', () => {
+    const sigma = 0.023 / 2.326;
+    const { cp, cpk } = calculateCapability(74.001, sigma, 73.95, 74.05);
+    expect(cp).toBeCloseTo(1.69, 2);
+    expect(cpk).toBeCloseTo((74.05 - 74.001) / (3 * sigma), 4);
+  });
+
+  // Montgomery's bottle bursting strength: one-sided LSL of 200 psi,
+  // x̄ = 264, s = 32, Cpl = 0.67
+  it('uses only the lower index for a minimum spec', () => {
+    const indices = calculateCapability(264, 32, 200, null);
+    expect(indices.cp).toBeNull();
+    expect(indices.cpu).toBeNull();
+    expect(indices.cpl).toBeCloseTo(0.67, 2);
+    expect(indices.cpk).toBe(indices.cpl);
+  });
+
+  it('takes Cpk from the nearer limit', () => {
+    const { cpu, cpl, cpk } = calculateCapability(10.1, 0.1, 9.7, 10.4);
+    expect(cpu).toBeCloseTo(1);
+    expect(cpl).toBeCloseTo(4 / 3);
+    expect(cpk).toBeCloseTo(1);
+  });
+});
+
+describe('capability helpers', () => {
+  it('clamps runaway indices from a zero sigma', () => {
+    expect(clampCapabilityIndex(Infinity)).toBe(999.999);
+    expect(minCapabilityIndex(null, 1.2)).toBe(1.2);
+  });
+
+  it('reads blank spec fields as missing limits', () => {
+    expect(parseSpecLimits(readings([1], { lsl: '', usl: '5' })[0])).toEqual({ lsl: null, usl: 5 });
+  });
+
+  it('rejects missing or inverted spec limits', () => {
+    expect(() => validateSpecLimits({ lsl: null, usl: null })).toThrow('No specification limits found');
+    expect(() => validateSpecLimits({ lsl: 5, usl: 4 })).toThrow('USL must be greater than LSL');
+  });
+});
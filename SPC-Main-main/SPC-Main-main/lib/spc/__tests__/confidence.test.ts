@@ -0,0 +1,44 @@
+import { calculateCapabilityIntervals } from '../confidence';
+
+const indices = (cp: number, cpu: number, cpl: number) => ({ cp, cpu, cpl, cpk: Math.min(cpu, cpl) });
+
+describe('calculateCapabilityIntervals', () => {
+  // Cp = 1.5 from 50 readings: Cp·√(χ²(α/2, 49)/49) to Cp·√(χ²(1-α/2, 49)/49)
+  const intervals = calculateCapabilityIntervals({
+    capability: indices(1.5, 1.5, 1.6),
+    performance: indices(1.5, 1.2, 1.8),
+    n: 50,
+    withinDegreesOfFreedom: 49
+  });
+
+  it('bounds Cp and Pp with exact chi-square quantiles', () => {
+    expect(intervals.cp).toEqual({ estimate: 1.5, lower: 1.2037, upper: 1.7957, lowerBound: 1.2482 });
+    expect(intervals.pp).toEqual(intervals.cp);
+  });
+
+  it("bounds Cpk with Bissell's approximation", () => {
+    // se = √(1/(9·50) + 1.5²/(2·49)) = 0.15869
+    expect(intervals.cpk).toEqual({ estimate: 1.5, lower: 1.189, upper: 1.811, lowerBound: 1.239 });
+    expect(intervals.ppk.estimate).toBe(1.2);
+  });
+
+  it('widens as the confidence level rises', () => {
+    const input = { capability: indices(1.5, 1.5, 1.6), performance: indices(1.5, 1.2, 1.8), n: 50, withinDegreesOfFreedom: 49 };
+    const at90 = calculateCapabilityIntervals(input, 0.9);
+    const at99 = calculateCapabilityIntervals(input, 0.99);
+    expect(at99.cpk.lower).toBeLessThan(intervals.cpk.lower);
+    expect(at90.cpk.lower).toBeGreaterThan(intervals.cpk.lower);
+  });
+
+  it('leaves out the indices of a missing spec limit', () => {
+    const oneSided = calculateCapabilityIntervals({
+      capability: { cp: null, cpu: 1.4, cpl: null, cpk: 1.4 },
+      performance: { cp: null, cpu: 1.3, cpl: null, cpk: 1.3 },
+      n: 30,
+      withinDegreesOfFreedom: 29
+    });
+    expect(oneSided.cp).toBeNull();
+    expect(oneSided.cpl).toBeNull();
+    expect(oneSided.cpu?.estimate).toBe(1.4);
+  });
+});
@@ -0,0 +1,42 @@
+import { analyzeInspectionData } from '../analyze';
+import { calculateCusum } from '../cusum';
+import { SpcAnalysis } from '../types';
+import { MONTGOMERY_CUSUM_READINGS, readings } from '../__fixtures__/inspectionData';
+
+// Montgomery's example uses the known σ = 1 rather than an estimate
+const analysis = (): SpcAnalysis => {
+  const base = analyzeInspectionData(readings(MONTGOMERY_CUSUM_READINGS, { lsl: '6', usl: '14' }), {
+    sampleSize: 1,
+    chartType: 'i-mr'
+  });
+  return { ...base, metrics: { ...base.metrics, stdDevWithin: 1 } };
+};
+
+describe('calculateCusum', () => {
+  it('reproduces the tabular CUSUM of Montgomery Example 9.1', () => {
+    const result = calculateCusum(analysis(), { target: 10, k: 0.5, h: 5 });
+    expect(result.allowance).toBe(0.5);
+    expect(result.decisionInterval).toBe(5);
+    expect(result.upper[0].y).toBe(0);
+    expect(result.lower[1].y).toBeCloseTo(1.56);
+    expect(result.upper.slice(-2).map(p => p.y)).toEqual([expect.closeTo(5.28), expect.closeTo(5.3)]);
+  });
+
+  it('raises one alarm per excursion with its onset and the shifted mean', () => {
+    const { alarms } = calculateCusum(analysis(), { target: 10, k: 0.5, h: 5 });
+    expect(alarms).toHaveLength(1);
+    expect(alarms[0]).toMatchObject({ direction: 'up', subgroup: 29, onset: 23 });
+    expect(alarms[0].estimatedMean).toBeCloseTo(11.25, 2);
+  });
+
+  it('skips excluded subgroups and carries the sums over them', () => {
+    const base = analysis();
+    const withExclusion = {
+      ...base,
+      controlCharts: { ...base.controlCharts, exclusions: [{ subgroup: 23, reason: 'Setup' }] }
+    };
+    const result = calculateCusum(withExclusion, { target: 10, k: 0.5, h: 5 });
+    expect(result.upper).toHaveLength(29);
+    expect(result.upper.some(p => p.x === 23)).toBe(false);
+  });
+});
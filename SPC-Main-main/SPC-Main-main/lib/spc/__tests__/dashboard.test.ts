@@ -0,0 +1,32 @@
+import { analyzeAttributeData } from '../attributes';
+import { failedGaugeSummary, sortGaugeSummaries, summarizeAttributeGauge } from '../dashboard';
+import { readings } from '../__fixtures__/inspectionData';
+
+const gauge = (guageCode: string) => ({ guageCode, guageName: `Gauge ${guageCode}` });
+
+describe('summarizeAttributeGauge', () => {
+  it('reports the observed nonconforming rate without capability indices', () => {
+    const values = Array.from({ length: 40 }, (_, i) => (i % 10 === 9 ? 11.5 : 10));
+    const analysis = analyzeAttributeData(readings(values), { chartType: 'p', grouping: 'subgroup', subgroupSize: 10 });
+    expect(summarizeAttributeGauge(gauge('G1'), analysis)).toMatchObject({
+      readings: 40,
+      cpk: null,
+      ppk: null,
+      ppm: 100000,
+      violations: 0,
+      error: null
+    });
+  });
+});
+
+describe('sortGaugeSummaries', () => {
+  it('keeps failed gauges last in either direction', () => {
+    const rows = [
+      failedGaugeSummary(gauge('G1'), 'No data'),
+      { ...failedGaugeSummary(gauge('G2'), ''), error: null, cpk: 1.5 },
+      { ...failedGaugeSummary(gauge('G3'), ''), error: null, cpk: 0.9 }
+    ];
+    expect(sortGaugeSummaries(rows, 'cpk', 'asc').map(r => r.guageCode)).toEqual(['G3', 'G2', 'G1']);
+    expect(sortGaugeSummaries(rows, 'cpk', 'desc').map(r => r.guageCode)).toEqual(['G2', 'G3', 'G1']);
+  });
+});
@@ -0,0 +1,41 @@
+import { analyzeInspectionData } from '../analyze';
+import { calculateEwma } from '../ewma';
+import { SpcAnalysis } from '../types';
+import { MONTGOMERY_CUSUM_READINGS, readings } from '../__fixtures__/inspectionData';
+
+// Montgomery's example uses the known σ = 1 rather than an estimate
+const analysis = (): SpcAnalysis => {
+  const base = analyzeInspectionData(readings(MONTGOMERY_CUSUM_READINGS, { lsl: '6', usl: '14' }), {
+    sampleSize: 1,
+    chartType: 'i-mr'
+  });
+  return { ...base, metrics: { ...base.metrics, stdDevWithin: 1 } };
+};
+
+describe('calculateEwma', () => {
+  // Montgomery Example 9.2: λ = 0.1, L = 2.7
+  const result = calculateEwma(analysis(), { target: 10, lambda: 0.1, L: 2.7 });
+
+  it('starts from the target', () => {
+    expect(result.points[0].y).toBeCloseTo(9.945);
+    expect(result.points[1].y).toBeCloseTo(9.7495);
+  });
+
+  it('widens the limits towards steady state', () => {
+    expect(result.points[0].ucl).toBeCloseTo(10.27, 2);
+    expect(result.points[0].lcl).toBeCloseTo(9.73, 2);
+    expect(result.steadyUcl).toBeCloseTo(10.62, 2);
+    expect(result.steadyLcl).toBeCloseTo(9.38, 2);
+    expect(result.points[29].ucl).toBeLessThan(result.steadyUcl);
+  });
+
+  it('signals the shift from reading 29', () => {
+    expect(result.points.filter(p => p.outOfControl).map(p => p.x)).toEqual([29, 30]);
+  });
+
+  it('reduces to a Shewhart chart when λ is 1', () => {
+    const shewhart = calculateEwma(analysis(), { target: 10, lambda: 1, L: 3 });
+    expect(shewhart.points.map(p => p.y)).toEqual(MONTGOMERY_CUSUM_READINGS);
+    expect(shewhart.steadyUcl).toBeCloseTo(13);
+  });
+});
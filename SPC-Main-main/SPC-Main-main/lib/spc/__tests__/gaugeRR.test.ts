@@ -0,0 +1,83 @@
+import { analyzeGaugeStudy, parseGaugeStudyCsv } from '../gaugeRR';
+import { aiagCsv, aiagStudy } from '../__fixtures__/gaugeStudy';
+
+describe('analyzeGaugeStudy', () => {
+  it('matches the AIAG Average & Range example', () => {
+    const result = analyzeGaugeStudy(aiagStudy(), 'average-range');
+    expect(result.repeatability.stdDev).toBeCloseTo(0.2019, 4);
+    expect(result.reproducibility.stdDev).toBeCloseTo(0.2297, 4);
+    expect(result.gaugeRR.stdDev).toBeCloseTo(0.3058, 4);
+    expect(result.partToPart.stdDev).toBeCloseTo(1.1046, 4);
+    expect(result.total.stdDev).toBeCloseTo(1.1461, 4);
+    expect(result.repeatability.percentStudyVariation).toBeCloseTo(17.61, 1);
+    expect(result.reproducibility.percentStudyVariation).toBeCloseTo(20.04, 1);
+    expect(result.gaugeRR.percentStudyVariation).toBeCloseTo(26.68, 1);
+    expect(result.partToPart.percentStudyVariation).toBeCloseTo(96.38, 1);
+    expect(result.gaugeRR.percentTolerance).toBeCloseTo(30.58, 1);
+    expect(result.ndc).toBe(5);
+    expect(result.anova).toBeNull();
+    // %Tolerance is above 30, though %Study Var is not
+    expect(result.verdict).toBe('unacceptable');
+  });
+
+  it('matches the AIAG ANOVA example', () => {
+    const result = analyzeGaugeStudy(aiagStudy(), 'anova');
+    expect(result.interactionPooled).toBe(true);
+    expect(result.interaction).toBeNull();
+    expect(result.repeatability.stdDev).toBeCloseTo(0.1999, 4);
+    expect(result.reproducibility.stdDev).toBeCloseTo(0.2268, 4);
+    expect(result.gaugeRR.stdDev).toBeCloseTo(0.3024, 4);
+    expect(result.gaugeRR.percentStudyVariation).toBeCloseTo(27.86, 1);
+    expect(result.gaugeRR.percentTolerance).toBeCloseTo(30.24, 1);
+    expect(result.partToPart.stdDev).toBeCloseTo(1.0423, 4);
+    expect(result.ndc).toBe(4);
+    expect(result.verdict).toBe('unacceptable');
+  });
+
+  it('builds the two-way ANOVA table', () => {
+    const anova = analyzeGaugeStudy(aiagStudy(), 'anova').anova ?? [];
+    const row = (source: string) => anova.find(r => r.source === source);
+    expect(row('Part')?.meanSquare).toBeCloseTo(9.817993, 5);
+    expect(row('Part')?.f).toBeCloseTo(245.6, 0);
+    expect(row('Operator')?.meanSquare).toBeCloseTo(1.583631, 5);
+    expect(row('Repeatability')).toMatchObject({ degreesOfFreedom: 78 });
+    expect(row('Repeatability')?.meanSquare).toBeCloseTo(0.039973, 5);
+    expect(row('Total')).toMatchObject({ degreesOfFreedom: 89 });
+    expect(row('Total')?.sumOfSquares).toBeCloseTo(94.6471, 3);
+  });
+
+  it('leaves out %Tolerance without both spec limits', () => {
+    const result = analyzeGaugeStudy({ ...aiagStudy(), usl: null }, 'average-range');
+    expect(result.gaugeRR.percentTolerance).toBeNull();
+    expect(result.verdict).toBe('marginal');
+  });
+
+  it('rejects incomplete studies', () => {
+    const study = aiagStudy();
+    study.measurements[1][4] = [0.1, 0.2];
+    expect(() => analyzeGaugeStudy(study, 'anova')).toThrow('Reading missing for B, part 5, trial 3');
+    expect(() => analyzeGaugeStudy({ ...aiagStudy(), trials: 4 }, 'average-range')).toThrow('Reading missing');
+  });
+});
+
+describe('parseGaugeStudyCsv', () => {
+  it('reads one row per reading into operator × part × trial', () => {
+    const parsed = parseGaugeStudyCsv(aiagCsv());
+    const { operators, parts, trials, measurements } = aiagStudy();
+    expect(parsed).toEqual({ operators, parts, trials, measurements });
+  });
+
+  it('names the operator and part with a missing trial', () => {
+    const csv = aiagCsv().split('\n').filter(line => line !== 'B,5,-1.2').join('\n');
+    expect(() => parseGaugeStudyCsv(csv)).toThrow('B has 2 reading(s) of part 5. Every part needs 3 from each operator');
+  });
+
+  it('rejects studies larger than the study screen allows', () => {
+    const rows = (parts: number, trials: number) => ['A', 'B'].flatMap(op =>
+      Array.from({ length: parts }, (_, p) => Array.from({ length: trials }, () => `${op},${p + 1},1.0`)).flat()
+    ).join('\n');
+    expect(() => parseGaugeStudyCsv(rows(21, 2))).toThrow('The readings cover 21 part(s). A study needs 2 to 20 parts');
+    expect(() => parseGaugeStudyCsv(rows(5, 6))).toThrow('The readings have 6 trial(s) per part. A study needs 2 to 5 trials');
+    expect(() => parseGaugeStudyCsv(rows(5, 1))).toThrow('1 trial(s)');
+  });
+});
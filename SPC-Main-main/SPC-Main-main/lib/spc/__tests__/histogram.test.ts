@@ -0,0 +1,65 @@
+import { buildHistogram, calculateNormalCurve } from '../histogram';
+import { BinningRule } from '../types';
+
+// 1, 2, ..., 100: span 99, s = 29.01, IQR 49.5
+const VALUES = Array.from({ length: 100 }, (_, i) => i + 1);
+
+const binsFor = (rule: BinningRule) => buildHistogram(VALUES, null, null, { rule, includeSpecs: false });
+
+describe('buildHistogram', () => {
+  it.each([
+    ['sqrt', 10, 9.9],
+    ['sturges', 8, 99 / 8],
+    ['scott', 5, 3.49 * 29.0115 / Math.cbrt(100)],
+    ['freedman-diaconis', 5, 2 * 49.5 / Math.cbrt(100)]
+  ] as [BinningRule, number, number][])('sizes %s bins', (rule, bins, width) => {
+    const histogram = binsFor(rule);
+    expect(histogram.numberOfBins).toBe(bins);
+    expect(histogram.binWidth).toBeCloseTo(width, 3);
+    expect(histogram.bins.reduce((sum, bin) => sum + bin.y, 0)).toBe(100);
+  });
+
+  it('puts manual bin edges on the anchor', () => {
+    const histogram = buildHistogram(VALUES, null, null, { rule: 'manual', binWidth: 10, anchor: 0, includeSpecs: false });
+    expect(histogram.binStart).toBe(0);
+    expect(histogram.numberOfBins).toBe(10);
+    // The maximum lands on the last edge and counts in the last bin
+    expect(histogram.bins.map(bin => bin.y)).toEqual([9, 10, 10, 10, 10, 10, 10, 10, 10, 11]);
+  });
+
+  it('extends the bins out to the spec limits when asked', () => {
+    const histogram = buildHistogram(VALUES, -49, 150, { rule: 'manual', binWidth: 10, anchor: 0, includeSpecs: true });
+    expect(histogram.binStart).toBe(-50);
+    expect(histogram.numberOfBins).toBe(20);
+    expect(histogram.bins[0]).toMatchObject({ y: 0, isWithinSpec: false });
+    expect(histogram.bins[10]).toMatchObject({ isWithinSpec: true });
+  });
+
+  it('marks the bin holding the target', () => {
+    const histogram = buildHistogram(VALUES, 0, 50, { rule: 'manual', binWidth: 10, anchor: 0, includeSpecs: false });
+    expect(histogram.bins.filter(bin => bin.containsTarget).map(bin => bin.x)).toEqual([25]);
+  });
+
+  it('rejects a manual width that gives too many bins', () => {
+    expect(() => buildHistogram(VALUES, null, null, { rule: 'manual', binWidth: 0.1, includeSpecs: false }))
+      .toThrow('That bin width gives 990 bins');
+    expect(() => buildHistogram(VALUES, null, null, { rule: 'manual', includeSpecs: false }))
+      .toThrow('Enter a bin width greater than 0');
+  });
+
+  it('uses one bin for identical readings', () => {
+    const histogram = buildHistogram([5, 5, 5], null, null, { rule: 'scott', includeSpecs: false });
+    expect(histogram.numberOfBins).toBe(1);
+    expect(histogram.bins[0].y).toBe(3);
+  });
+});
+
+describe('calculateNormalCurve', () => {
+  it('encloses the same area as the bars', () => {
+    const curve = calculateNormalCurve(50, 10, 100, 5, 401);
+    const step = curve[1].x - curve[0].x;
+    const area = curve.reduce((sum, p) => sum + p.y * step, 0);
+    expect(area).toBeCloseTo(100 * 5, -1);
+    expect(curve[200].y).toBeCloseTo((100 * 5) / (10 * Math.sqrt(2 * Math.PI)), 6);
+  });
+});
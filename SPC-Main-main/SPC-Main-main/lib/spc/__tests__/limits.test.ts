@@ -0,0 +1,76 @@
+import { getSpcConstants } from '../constants';
+import { calculateControlLimits, calculateMovingRanges, estimateWithinStdDev } from '../limits';
+import { calculateSubgroups } from '../subgroups';
+import { readings } from '../__fixtures__/inspectionData';
+
+describe('SPC constants', () => {
+  // Montgomery, Introduction to Statistical Quality Control, Appendix VI
+  it('matches the published table for n = 5', () => {
+    expect(getSpcConstants(5)).toMatchObject({
+      A2: 0.577, A3: 1.427, B3: 0, B4: 2.089, D3: 0, D4: 2.114, d2: 2.326, c4: 0.94
+    });
+  });
+
+  it('uses the n = 2 row for individuals', () => {
+    expect(getSpcConstants(1)).toEqual(getSpcConstants(2));
+    expect(getSpcConstants(1).E2).toBe(2.66);
+  });
+
+  it('rejects sizes beyond the table', () => {
+    expect(() => getSpcConstants(26)).toThrow('Sample size 26 is not supported');
+  });
+});
+
+describe('calculateControlLimits', () => {
+  // Means 2, 3, 4 and ranges 2, 2, 2: X̿ = 3, R̄ = 2
+  const subgroups = calculateSubgroups(readings([1, 2, 3, 2, 3, 4, 3, 4, 5]), 3);
+
+  it('sets X̄-R limits at X̿ ± A2·R̄ and D3·R̄ to D4·R̄', () => {
+    const limits = calculateControlLimits(subgroups, { chartType: 'xbar-r', sampleSize: 3 });
+    expect(limits.xBarMean).toBeCloseTo(3);
+    expect(limits.spreadMean).toBeCloseTo(2);
+    expect(limits.xBarUcl).toBeCloseTo(3 + 1.023 * 2);
+    expect(limits.xBarLcl).toBeCloseTo(3 - 1.023 * 2);
+    expect(limits.spreadUcl).toBeCloseTo(2.574 * 2);
+    expect(limits.spreadLcl).toBe(0);
+  });
+
+  it('sets X̄-S limits at X̿ ± A3·S̄ and B3·S̄ to B4·S̄', () => {
+    // Each subgroup of three consecutive integers has s = 1
+    const limits = calculateControlLimits(subgroups, { chartType: 'xbar-s', sampleSize: 3 });
+    expect(limits.spreadMean).toBeCloseTo(1);
+    expect(limits.xBarUcl).toBeCloseTo(3 + 1.954);
+    expect(limits.spreadUcl).toBeCloseTo(2.568);
+  });
+
+  it('sets I-MR limits at X̄ ± E2·MR̄ and D4·MR̄', () => {
+    // Moving ranges 2, 1, 2, 1: MR̄ = 1.5
+    const individuals = calculateSubgroups(readings([10, 12, 11, 13, 12]), 1);
+    const limits = calculateControlLimits(individuals, { chartType: 'i-mr', sampleSize: 1 });
+    expect(limits.xBarMean).toBeCloseTo(11.6);
+    expect(limits.spreadMean).toBeCloseTo(1.5);
+    expect(limits.xBarUcl).toBeCloseTo(11.6 + 2.66 * 1.5);
+    expect(limits.xBarLcl).toBeCloseTo(11.6 - 2.66 * 1.5);
+    expect(limits.spreadUcl).toBeCloseTo(3.267 * 1.5);
+  });
+
+  it('leaves excluded subgroups out of the center lines', () => {
+    const limits = calculateControlLimits(subgroups, { chartType: 'xbar-r', sampleSize: 3 }, new Set([3]));
+    expect(limits.xBarMean).toBeCloseTo(2.5);
+  });
+});
+
+describe('calculateMovingRanges', () => {
+  it('takes the range of each window of span readings', () => {
+    expect(calculateMovingRanges([10, 12, 11, 13, 12], 2)).toEqual([2, 1, 2, 1]);
+    expect(calculateMovingRanges([10, 12, 11, 13, 12], 3)).toEqual([2, 2, 2]);
+  });
+});
+
+describe('estimateWithinStdDev', () => {
+  it('divides R̄ by d2 and S̄ by c4', () => {
+    expect(estimateWithinStdDev(2.326, { chartType: 'xbar-r', sampleSize: 5 }).stdDev).toBeCloseTo(1);
+    expect(estimateWithinStdDev(0.94, { chartType: 'xbar-s', sampleSize: 5 }).stdDev).toBeCloseTo(1);
+    expect(estimateWithinStdDev(1.128, { chartType: 'i-mr', sampleSize: 1 }).stdDev).toBeCloseTo(1);
+  });
+});
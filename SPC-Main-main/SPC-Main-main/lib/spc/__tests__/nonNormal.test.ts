@@ -0,0 +1,64 @@
+import { calculateNonNormalCapability, NonNormalInput } from '../nonNormal';
+import { normalQuantile } from '../stats';
+import { calculateSubgroups } from '../subgroups';
+import { CapabilityMethod } from '../types';
+import { NORMAL_READINGS, readings, SB_BOUNDED_READINGS } from '../__fixtures__/inspectionData';
+
+const input = (values: number[], lsl: number | null, usl: number | null): NonNormalInput => ({
+  subgroups: calculateSubgroups(readings(values), 1),
+  excluded: new Set(),
+  chartOptions: { sampleSize: 1, chartType: 'i-mr' },
+  values,
+  lsl,
+  usl
+});
+
+// Lognormal quantiles: log(x) ~ N(0, 0.25)
+const LOGNORMAL = Array.from({ length: 60 }, (_, i) => Math.exp(0.25 * normalQuantile((i + 0.5) / 60)));
+
+const capability = (method: CapabilityMethod, values: number[], lsl: number | null, usl: number | null) =>
+  calculateNonNormalCapability(method, input(values, lsl, usl));
+
+describe('calculateNonNormalCapability', () => {
+  it('returns nothing for the normal method', () => {
+    expect(capability('normal', NORMAL_READINGS, 9.7, 10.3)).toBeNull();
+  });
+
+  it('fits a log transform to lognormal readings', () => {
+    const result = capability('box-cox', LOGNORMAL, null, 2);
+    expect(result?.parameters[0].value).toBeCloseTo(0, 1);
+    // log(2) is 2.77 standard deviations of 0.25 above the median of 0
+    expect(result?.ppk).toBeCloseTo(Math.log(2) / (3 * 0.25), 1);
+    expect(result?.transformedNormality?.pValue).toBeGreaterThan(0.5);
+  });
+
+  it('rejects Box-Cox for readings at or below zero', () => {
+    expect(() => capability('box-cox', [0, ...LOGNORMAL], null, 2)).toThrow('greater than 0');
+  });
+
+  it('takes percentile indices from the fitted 0.135%, 50% and 99.865% points', () => {
+    const result = capability('percentile', LOGNORMAL, null, 2);
+    const [lower, median, upper] = result?.parameters.map(p => p.value) ?? [];
+    expect(lower).toBeCloseTo(Math.exp(-0.75), 1);
+    expect(median).toBeCloseTo(1, 1);
+    // The upper tail rests on the few largest of 60 readings
+    expect(Math.abs(upper / Math.exp(0.75) - 1)).toBeLessThan(0.06);
+    expect(result?.cp).toBeNull();
+    expect(result?.ppk).toBeCloseTo((2 - median) / (upper - median), 4);
+  });
+
+  it('passes over a Johnson fit whose bounds leave out a spec limit', () => {
+    const result = capability('johnson', SB_BOUNDED_READINGS, 9.9, 10.1);
+    expect(result?.warning).toMatch(/^The Johnson SB fit \(9\.91\d* to 10\.\d+\) leaves out a spec limit/);
+    expect(result?.cp).not.toBeNull();
+    expect(result?.pp).not.toBeNull();
+    expect(result?.cpk).toBeLessThan(3);
+    expect(result?.ppk).toBeLessThan(3);
+  });
+
+  it('keeps the best Johnson fit when it covers the specs', () => {
+    const result = capability('johnson', SB_BOUNDED_READINGS, 9.95, 10.05);
+    expect(result?.description).toBe('Johnson SB');
+    expect(result?.warning).toBeNull();
+  });
+});
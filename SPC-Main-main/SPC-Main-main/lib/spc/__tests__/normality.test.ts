@@ -0,0 +1,64 @@
+import { andersonDarlingTest, calculateProbabilityPlot, shapiroWilkTest, testNormality } from '../normality';
+
+// R datasets mtcars$mpg and ToothGrowth$len
+const MTCARS_MPG = [
+  21.0, 21.0, 22.8, 21.4, 18.7, 18.1, 14.3, 24.4, 22.8, 19.2, 17.8, 16.4, 17.3, 15.2, 10.4, 10.4,
+  14.7, 32.4, 30.4, 33.9, 21.5, 15.5, 15.2, 13.3, 19.2, 27.3, 26.0, 30.4, 15.8, 19.7, 15.0, 21.4
+];
+const TOOTH_GROWTH_LEN = [
+  4.2, 11.5, 7.3, 5.8, 6.4, 10.0, 11.2, 11.2, 5.2, 7.0, 16.5, 16.5, 15.2, 17.3, 22.5,
+  17.3, 13.6, 14.5, 18.8, 15.5, 23.6, 18.5, 33.9, 25.5, 26.4, 32.5, 26.7, 21.5, 23.3, 29.5,
+  15.2, 21.5, 17.6, 9.7, 14.5, 10.0, 8.2, 9.4, 16.5, 9.7, 19.7, 23.3, 23.6, 26.4, 20.0,
+  25.2, 25.8, 21.2, 14.5, 27.3, 25.5, 26.4, 22.4, 24.5, 24.8, 30.9, 26.4, 27.3, 29.4, 23.0
+];
+
+describe('shapiroWilkTest', () => {
+  it('matches R shapiro.test', () => {
+    const mpg = shapiroWilkTest(MTCARS_MPG);
+    expect(mpg?.statistic).toBeCloseTo(0.94756, 5);
+    expect(mpg?.pValue).toBeCloseTo(0.1229, 4);
+
+    const len = shapiroWilkTest(TOOTH_GROWTH_LEN);
+    expect(len?.statistic).toBeCloseTo(0.96743, 5);
+    expect(len?.pValue).toBeCloseTo(0.1091, 4);
+  });
+
+  it('uses the exact distribution for three readings', () => {
+    // Equally spaced readings give the largest possible W
+    expect(shapiroWilkTest([1, 2, 3])).toEqual({ statistic: 1, pValue: 1 });
+  });
+
+  it('skips constant data', () => {
+    expect(shapiroWilkTest([5, 5, 5, 5])).toBeNull();
+  });
+});
+
+describe('andersonDarlingTest', () => {
+  it('matches R nortest::ad.test', () => {
+    const mpg = andersonDarlingTest(MTCARS_MPG);
+    expect(mpg?.statistic).toBeCloseTo(0.5797, 4);
+    expect(mpg?.pValue).toBeCloseTo(0.1207, 4);
+  });
+
+  it('needs at least 8 readings', () => {
+    expect(andersonDarlingTest([1, 2, 3, 4, 5, 6, 7])).toBeNull();
+  });
+});
+
+describe('testNormality', () => {
+  it('rejects normality when either test falls below alpha', () => {
+    const skewed = [1, 1, 1, 1, 1, 1, 1, 2, 2, 3, 5, 9, 20, 50];
+    expect(testNormality(skewed).isNormal).toBe(false);
+    expect(testNormality(MTCARS_MPG).isNormal).toBe(true);
+    expect(testNormality(MTCARS_MPG, 0.15).isNormal).toBe(false);
+  });
+});
+
+describe('calculateProbabilityPlot', () => {
+  it('pairs sorted readings with Blom normal scores', () => {
+    const plot = calculateProbabilityPlot([3, 1, 2]);
+    expect(plot.map(p => p.y)).toEqual([1, 2, 3]);
+    expect(plot[1].x).toBeCloseTo(0);
+    expect(plot[0].x).toBeCloseTo(-plot[2].x);
+  });
+});
@@ -0,0 +1,40 @@
+import { calculateDefectRates } from '../ppm';
+
+const rates = (lsl: number | null, usl: number | null, values = [0]) =>
+  calculateDefectRates({ values, processMean: 0, stdDevWithin: 1, stdDevOverall: 1, lsl, usl });
+
+describe('calculateDefectRates', () => {
+  it('gives 2700 PPM for specs at ±3σ', () => {
+    const { expectedOverall } = rates(-3, 3);
+    expect(expectedOverall.belowLsl).toBeCloseTo(1349.9, 0);
+    expect(expectedOverall.aboveUsl).toBeCloseTo(1349.9, 0);
+    expect(expectedOverall.total).toBeCloseTo(2699.8, 0);
+  });
+
+  it('reads 3.4 PPM at 4.5σ as six sigma with the 1.5σ shift', () => {
+    const result = rates(null, 4.5);
+    expect(result.expectedOverall.belowLsl).toBeNull();
+    expect(result.expectedOverall.aboveUsl).toBeCloseTo(3.4, 1);
+    expect(result.sigmaLevel).toBeCloseTo(4.5, 1);
+    expect(result.sigmaLevelShifted).toBeCloseTo(6, 1);
+  });
+
+  it('uses each sigma for its own estimate', () => {
+    const result = calculateDefectRates({
+      values: [0], processMean: 0, stdDevWithin: 1, stdDevOverall: 1.5, lsl: -3, usl: 3
+    });
+    expect(result.expectedWithin.total).toBeCloseTo(2699.8, 0);
+    // ±3 is ±2σ overall
+    expect(result.expectedOverall.total).toBeCloseTo(45500.3, 0);
+  });
+
+  it('counts the readings outside the specs', () => {
+    const result = rates(-1, 1, [-2, -0.5, 0, 0.5, 1.5, 3, 0, 0.2, 0.1, 0.3]);
+    expect(result.observedOutOfSpec).toBe(3);
+    expect(result.observed).toEqual({ belowLsl: 100000, aboveUsl: 200000, total: 300000 });
+  });
+
+  it('caps the sigma level when no defects are expected', () => {
+    expect(isFinite(rates(-50, 50).sigmaLevel)).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { evaluateNelsonRules, NelsonRule } from '../rules';
+
+// Center 0 and limits ±3, so each zone is one unit wide
+const LIMITS = { ucl: 3, cl: 0, lcl: -3 };
+
+const points = (ys: number[]) => ys.map((y, i) => ({ x: i + 1, y }));
+
+const repeat = (pattern: number[], length: number) =>
+  Array.from({ length }, (_, i) => pattern[i % pattern.length]);
+
+// One fixture per rule, each tripping only its own rule at its last point
+const FIXTURES: [NelsonRule, number[]][] = [
+  [1, [0, 0, 4]],
+  [2, repeat([0.5], 9)],
+  [3, [0, 0.1, 0.2, 0.3, 0.4, 0.5]],
+  [4, repeat([0.1, -0.1], 14)],
+  [5, [0, 2.5, 2.5]],
+  [6, [0, 1.5, 1.5, 1.5, 1.5]],
+  [7, repeat([0.1, 0.2, -0.1, -0.2], 15)],
+  [8, repeat([1.5, -1.5], 8)]
+];
+
+describe('evaluateNelsonRules', () => {
+  it.each(FIXTURES)('flags rule %i where the pattern completes', (rule, ys) => {
+    const violations = evaluateNelsonRules(points(ys), LIMITS);
+    expect(violations).toEqual([{ index: ys.length - 1, x: ys.length, rules: [rule] }]);
+  });
+
+  it('only checks the enabled rules', () => {
+    expect(evaluateNelsonRules(points([0, 0, 4]), LIMITS, [2, 3])).toEqual([]);
+  });
+
+  it('finds nothing in a stable series', () => {
+    expect(evaluateNelsonRules(points([0.5, -0.3, 1.2, -1.1, 0.2, 0.8, -0.6]), LIMITS)).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { analyzeInspectionData } from '../analyze';
+import { calculateSubgroups } from '../subgroups';
+import { mergeShortStages, splitIntoStages } from '../stages';
+import { NORMAL_READINGS, readings } from '../__fixtures__/inspectionData';
+
+// Shift A for 20 readings, B for 2, then A again for 28
+const shiftData = () => {
+  const data = readings(NORMAL_READINGS);
+  data.slice(20, 22).forEach(d => {
+    d.ShiftCode = 2;
+    d.ShiftName = 'B';
+  });
+  return data;
+};
+
+describe('splitIntoStages', () => {
+  it('starts a stage whenever the shift changes', () => {
+    const stages = splitIntoStages(calculateSubgroups(shiftData(), 1), 'shift');
+    expect(stages.map(s => [s.label, s.start, s.end])).toEqual([['A', 1, 20], ['B', 21, 22], ['A', 23, 50]]);
+  });
+
+  it('starts custom stages at the break subgroups', () => {
+    const stages = splitIntoStages(calculateSubgroups(shiftData(), 1), 'custom', [11, 31]);
+    expect(stages.map(s => [s.label, s.start, s.end])).toEqual([
+      ['Stage 1', 1, 10], ['Stage 2', 11, 30], ['Stage 3', 31, 50]
+    ]);
+  });
+});
+
+describe('mergeShortStages', () => {
+  const range = (label: string, start: number, end: number) => ({ label, start, end, merged: [] });
+
+  it('folds a short run into the stage before it and joins the stages either side', () => {
+    const merged = mergeShortStages([range('A', 1, 20), range('B', 21, 22), range('A', 23, 50)], new Set());
+    expect(merged).toEqual([{ label: 'A', start: 1, end: 50, merged: ['B'] }]);
+  });
+
+  it('keeps neighbouring stages with different labels apart', () => {
+    const merged = mergeShortStages([range('A', 1, 20), range('B', 21, 22), range('C', 23, 50)], new Set());
+    expect(merged).toEqual([
+      { label: 'A', start: 1, end: 22, merged: ['B'] },
+      { label: 'C', start: 23, end: 50, merged: [] }
+    ]);
+  });
+
+  it('folds a short first run into the stage after it', () => {
+    const merged = mergeShortStages([range('B', 1, 2), range('A', 3, 20)], new Set());
+    expect(merged).toEqual([{ label: 'A', start: 1, end: 20, merged: ['B'] }]);
+  });
+
+  it('counts excluded subgroups as missing', () => {
+    const merged = mergeShortStages([range('A', 1, 6), range('B', 7, 12)], new Set([8, 9]));
+    expect(merged).toEqual([{ label: 'A', start: 1, end: 12, merged: ['B'] }]);
+  });
+
+  it('keeps everything as one stage when no run is long enough', () => {
+    const merged = mergeShortStages([range('A', 1, 2), range('B', 3, 4)], new Set());
+    expect(merged).toEqual([{ label: 'B', start: 1, end: 4, merged: ['A'] }]);
+  });
+});
+
+describe('staged analysis', () => {
+  it('gives a short shift run the limits of its neighbour instead of failing', () => {
+    const analysis = analyzeInspectionData(shiftData(), { sampleSize: 1, chartType: 'i-mr', stageBy: 'shift' });
+    expect(analysis.stages.map(s => [s.label, s.start, s.end, s.merged])).toEqual([['A', 1, 50, ['B']]]);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  chiSquareCdf,
+  chiSquareQuantile,
+  fDistributionUpperTail,
+  normalCdf,
+  normalQuantile,
+  quantile,
+  regularizedGammaP,
+  sampleStdDev
+} from '../stats';
+
+describe('descriptive statistics', () => {
+  it('uses the n - 1 standard deviation', () => {
+    expect(sampleStdDev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.13809, 5);
+    expect(sampleStdDev([3])).toBe(0);
+  });
+
+  it('interpolates quantiles between order statistics', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 1)).toBe(4);
+  });
+});
+
+describe('normal distribution', () => {
+  it('matches the standard normal table', () => {
+    expect(normalCdf(1.96)).toBeCloseTo(0.9750021, 6);
+    expect(normalCdf(-3)).toBeCloseTo(0.0013499, 6);
+    expect(normalQuantile(0.99865)).toBeCloseTo(3, 4);
+  });
+});
+
+describe('chi-square distribution', () => {
+  it('gives P(1, x) = 1 - e^-x', () => {
+    expect(regularizedGammaP(1, 0.5)).toBeCloseTo(1 - Math.exp(-0.5), 12);
+    expect(regularizedGammaP(1, 5)).toBeCloseTo(1 - Math.exp(-5), 12);
+  });
+
+  // Values from R qchisq
+  it.each([
+    [0.025, 10, 3.246973],
+    [0.975, 10, 20.483177],
+    [0.05, 1, 0.0039321],
+    [0.95, 2, 5.991465],
+    [0.05, 49, 33.930306],
+    [0.975, 49, 70.222414]
+  ])('has quantile %f at %i df of %f', (p, df, expected) => {
+    expect(chiSquareQuantile(p, df)).toBeCloseTo(expected, 5);
+    expect(chiSquareCdf(expected, df)).toBeCloseTo(p, 6);
+  });
+});
+
+describe('fDistributionUpperTail', () => {
+  it('matches R pf', () => {
+    // pf(3.5, 4, 20, lower.tail = FALSE)
+    expect(fDistributionUpperTail(3.5, 4, 20)).toBeCloseTo(0.025382, 5);
+  });
+});
@@ -0,0 +1,36 @@
+import { calculateSubgroups, parseMeasurement } from '../subgroups';
+import { readings } from '../__fixtures__/inspectionData';
+
+describe('parseMeasurement', () => {
+  it('strips the L50 suffix and thousands separators', () => {
+    expect(parseMeasurement('10.02L50')).toBe(10.02);
+    expect(parseMeasurement('1,250.5')).toBe(1250.5);
+  });
+});
+
+describe('calculateSubgroups', () => {
+  it('groups consecutive readings in time order and drops an incomplete last group', () => {
+    const data = readings([1, 2, 3, 4, 5, 6, 7]).reverse();
+    const subgroups = calculateSubgroups(data, 3);
+    expect(subgroups.map(sg => sg.values)).toEqual([[1, 2, 3], [4, 5, 6]]);
+    expect(subgroups[0]).toMatchObject({ mean: 2, range: 2, stdDev: 1 });
+  });
+
+  it('keeps individuals as single-reading subgroups', () => {
+    const subgroups = calculateSubgroups(readings([5, 7]), 1);
+    expect(subgroups.map(sg => sg.mean)).toEqual([5, 7]);
+    expect(subgroups[0].range).toBe(0);
+  });
+
+  it('skips readings that are not numbers', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const data = readings([1, 2, 3]);
+    data[1].ActualSpecification = 'n/a';
+    expect(calculateSubgroups(data, 1).map(sg => sg.mean)).toEqual([1, 3]);
+    warn.mockRestore();
+  });
+
+  it('fails when there are fewer readings than one subgroup', () => {
+    expect(() => calculateSubgroups(readings([1, 2]), 3)).toThrow('Not enough data points for sample size 3');
+  });
+});
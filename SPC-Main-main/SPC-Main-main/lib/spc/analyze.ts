@@ -0,0 +1,219 @@
+import { calculateCapability, parseSpecLimits, validateSpecLimits } from './capability';
+import { CHART_TYPES } from './chartTypes';
+import { calculateCapabilityIntervals } from './confidence';
+import { SpcAnalysisError } from './errors';
+import { buildHistogram, DEFAULT_HISTOGRAM_OPTIONS } from './histogram';
+import { calculateControlLimits, calculateSpreadData, estimateWithinStdDev } from './limits';
+import { calculateNonNormalCapability } from './nonNormal';
+import { testNormality } from './normality';
+import { calculateDefectRates } from './ppm';
+import { resolveSpecRevisions } from './specRevisions';
+import { mergeShortStages, splitIntoStages } from './stages';
+import { sampleStdDev } from './stats';
+import { calculateSubgroups } from './subgroups';
+import { ControlLimits, InspectionData, SpcAnalysis, SpcAnalysisOptions, SpcStage, Subgroup } from './types';
+
+const round = (value: number) => Number(value.toFixed(4));
+
+const roundOrNull = (value: number | null) => value === null ? null : round(value);
+
+const roundLimits = (limits: ControlLimits): ControlLimits => ({
+  xBarUcl: round(limits.xBarUcl),
+  xBarLcl: round(limits.xBarLcl),
+  xBarMean: round(limits.xBarMean),
+  spreadUcl: round(limits.spreadUcl),
+  spreadLcl: round(limits.spreadLcl),
+  spreadMean: round(limits.spreadMean)
+});
+
+// Limits and both sigmas for a run of subgroups. `excluded` holds 1-based
+// subgroup numbers within that run.
+const summarizeSubgroups = (
+  subgroups: Subgroup[],
+  chartOptions: SpcAnalysisOptions,
+  excluded: Set<number>,
+  lsl: number | null,
+  usl: number | null
+) => {
+  const limits = calculateControlLimits(subgroups, chartOptions, excluded);
+  const values = subgroups.filter((_, i) => !excluded.has(i + 1)).flatMap(sg => sg.values);
+
+  // Short-term (within) sigma comes from the lower chart, long-term
+  // (overall) sigma from every individual reading
+  const within = estimateWithinStdDev(limits.spreadMean, chartOptions);
+  const stdDevOverall = Math.max(sampleStdDev(values), 0.0001);
+
+  return {
+    limits,
+    values,
+    within,
+    stdDevOverall,
+    capability: calculateCapability(limits.xBarMean, within.stdDev, lsl, usl),
+    performance: calculateCapability(limits.xBarMean, stdDevOverall, lsl, usl)
+  };
+};
+
+export const analyzeInspectionData = (
+  inspectionData: InspectionData[],
+  options: SpcAnalysisOptions
+): SpcAnalysis => {
+  const { chartType } = options;
+  // Individuals are always charted one reading at a time
+  const sampleSize = chartType === 'i-mr' ? 1 : options.sampleSize;
+  const movingRangeSpan = chartType === 'i-mr' ? options.movingRangeSpan ?? 2 : undefined;
+  const chartOptions = { chartType, sampleSize, movingRangeSpan };
+
+  if (inspectionData.length === 0) {
+    throw new SpcAnalysisError('No data available for the selected criteria');
+  }
+
+  const { data, specs } = resolveSpecRevisions(inspectionData, options);
+
+  if (data.length < sampleSize) {
+    throw new SpcAnalysisError(
+      `Not enough data points. Need at least ${sampleSize} points for sample size ${sampleSize}`
+    );
+  }
+
+  if (chartType !== 'i-mr' && sampleSize < 2) {
+    throw new SpcAnalysisError(
+      `${CHART_TYPES[chartType].label} charts need a sample size of at least 2`
+    );
+  }
+
+  const subgroups = calculateSubgroups(data, sampleSize);
+
+  // Exclusions are kept by subgroup number, so drop any that no longer
+  // point at a subgroup
+  const exclusions = (options.exclusions ?? [])
+    .filter(e => e.subgroup >= 1 && e.subgroup <= subgroups.length)
+    .sort((a, b) => a.subgroup - b.subgroup);
+  const excluded = new Set(exclusions.map(e => e.subgroup));
+
+  if (subgroups.length - excluded.size < 2) {
+    throw new SpcAnalysisError('At least 2 subgroups must remain after excluding points');
+  }
+
+  const specLimits = parseSpecLimits(data[0]);
+  validateSpecLimits(specLimits);
+  const { lsl, usl } = specLimits;
+
+  const whole = summarizeSubgroups(subgroups, chartOptions, excluded, lsl, usl);
+  const { limits, within, stdDevOverall, capability, performance } = whole;
+  const mean = limits.xBarMean;
+
+  // Frozen limits replace staging: a Phase II chart has one set of limits
+  const stageRanges = options.frozenLimits
+    ? []
+    : mergeShortStages(splitIntoStages(subgroups, options.stageBy ?? 'none', options.stageBreaks), excluded);
+
+  const stages: SpcStage[] = stageRanges.map(({ label, start, end, merged }) => {
+    const stageSubgroups = subgroups.slice(start - 1, end);
+    const stageExcluded = new Set(
+      exclusions.filter(e => e.subgroup >= start && e.subgroup <= end).map(e => e.subgroup - start + 1)
+    );
+
+    const stage = summarizeSubgroups(stageSubgroups, chartOptions, stageExcluded, lsl, usl);
+    return {
+      label,
+      start,
+      end,
+      merged,
+      limits: roundLimits(stage.limits),
+      xBar: round(stage.limits.xBarMean),
+      stdDevWithin: round(stage.within.stdDev),
+      stdDevOverall: round(stage.stdDevOverall),
+      cp: roundOrNull(stage.capability.cp),
+      cpk: round(stage.capability.cpk),
+      pp: roundOrNull(stage.performance.cp),
+      ppk: round(stage.performance.cpk)
+    };
+  });
+
+  const xBarData = subgroups.map((sg, i) => ({ x: i + 1, y: sg.mean }));
+  // Moving ranges start again at each stage rather than spanning a change
+  const spreadData = stages.length > 0
+    ? stages.flatMap(({ start, end }) =>
+        calculateSpreadData(subgroups.slice(start - 1, end), chartOptions)
+          .map(p => ({ x: p.x + start - 1, y: p.y })))
+    : calculateSpreadData(subgroups, chartOptions);
+
+  const binning = options.histogram ?? DEFAULT_HISTOGRAM_OPTIONS;
+  const histogram = buildHistogram(whole.values, lsl, usl, binning);
+
+  return {
+    subgroups,
+    specs,
+    stages,
+    metrics: {
+      xBar: round(mean),
+      stdDevOverall: round(stdDevOverall),
+      stdDevWithin: round(within.stdDev),
+      spreadMean: round(limits.spreadMean),
+      cp: roundOrNull(capability.cp),
+      cpkUpper: roundOrNull(capability.cpu),
+      cpkLower: roundOrNull(capability.cpl),
+      cpk: round(capability.cpk),
+      pp: roundOrNull(performance.cp),
+      ppu: roundOrNull(performance.cpu),
+      ppl: roundOrNull(performance.cpl),
+      ppk: round(performance.cpk),
+      lsl: roundOrNull(lsl),
+      usl: roundOrNull(usl),
+      stdDevWithinBasis: within.basis,
+      stdDevOverallBasis: 'Sample std dev'
+    },
+    capabilityIntervals: calculateCapabilityIntervals({
+      capability,
+      performance,
+      n: whole.values.length,
+      withinDegreesOfFreedom: chartType === 'i-mr'
+        ? whole.values.length - 1
+        : (subgroups.length - excluded.size) * (sampleSize - 1)
+    }, options.confidenceLevel),
+    defectRates: calculateDefectRates({
+      values: whole.values,
+      processMean: mean,
+      stdDevWithin: within.stdDev,
+      stdDevOverall,
+      lsl,
+      usl
+    }),
+    normality: testNormality(whole.values),
+    nonNormalCapability: calculateNonNormalCapability(options.capabilityMethod ?? 'normal', {
+      subgroups,
+      excluded,
+      chartOptions,
+      values: whole.values,
+      lsl,
+      usl
+    }),
+    controlCharts: {
+      chartType,
+      sampleSize,
+      movingRangeSpan,
+      phase: options.frozenLimits ? 'II' : 'I',
+      exclusions,
+      xBarData,
+      spreadData,
+      limits: options.frozenLimits ?? roundLimits(limits)
+    },
+    distribution: {
+      values: whole.values,
+      data: histogram.bins,
+      stats: {
+        mean: round(mean),
+        stdDev: round(stdDevOverall),
+        stdDevWithin: round(within.stdDev),
+        target: lsl !== null && usl !== null ? round((usl + lsl) / 2) : null,
+        min: histogram.min,
+        max: histogram.max,
+        processWidth: histogram.processWidth,
+        binWidth: histogram.binWidth,
+        binStart: histogram.binStart
+      },
+      numberOfBins: histogram.numberOfBins,
+      binning
+    }
+  };
+};
@@ -0,0 +1,238 @@
+import { format } from 'date-fns';
+import { isOutOfSpec, parseSpecLimits } from './capability';
+import { SpcAnalysisError } from './errors';
+import { parseMeasurement } from './subgroups';
+import { InspectionData } from './types';
+
+export type AttributeChartType = 'p' | 'np' | 'c' | 'u';
+
+// Count per fixed-size subgroup of consecutive readings, or per day
+export type AttributeGrouping = 'subgroup' | 'day';
+
+export interface AttributeChartTypeInfo {
+  label: string;
+  title: string;
+  axisLabel: string;
+  // Only p and u charts allow the number inspected to vary between groups
+  variableSampleSize: boolean;
+  // Smallest group the limits mean anything for
+  minGroupSize: number;
+  // Caveat shown with the chart, null when there is none
+  note: string | null;
+}
+
+// Below this many readings a group's proportion moves in steps too coarse
+// for binomial limits, and a single reading gives a UCL above 1
+export const MIN_PROPORTION_GROUP_SIZE = 10;
+
+// Inspection records hold a measurement, not a count of defects, so c and u
+// charts count each out-of-spec reading as one defect
+const DEFECT_COUNT_NOTE =
+  'Each out-of-spec reading counts as one defect, since the readings carry no defect counts. ' +
+  'Defects per group therefore equal nonconforming readings, with Poisson rather than binomial limits';
+
+export const ATTRIBUTE_CHART_TYPES: Record<AttributeChartType, AttributeChartTypeInfo> = {
+  p: {
+    label: 'p',
+    title: 'p Chart (Proportion Nonconforming)',
+    axisLabel: 'Proportion',
+    variableSampleSize: true,
+    minGroupSize: MIN_PROPORTION_GROUP_SIZE,
+    note: null
+  },
+  np: {
+    label: 'np',
+    title: 'np Chart (Number Nonconforming)',
+    axisLabel: 'Nonconforming',
+    variableSampleSize: false,
+    minGroupSize: MIN_PROPORTION_GROUP_SIZE,
+    note: null
+  },
+  c: {
+    label: 'c',
+    title: 'c Chart (Defects)',
+    axisLabel: 'Defects',
+    variableSampleSize: false,
+    minGroupSize: 1,
+    note: DEFECT_COUNT_NOTE
+  },
+  u: {
+    label: 'u',
+    title: 'u Chart (Defects per Unit)',
+    axisLabel: 'Defects per Unit',
+    variableSampleSize: true,
+    minGroupSize: 1,
+    note: DEFECT_COUNT_NOTE
+  }
+};
+
+export interface AttributeAnalysisOptions {
+  chartType: AttributeChartType;
+  grouping: AttributeGrouping;
+  // Readings per group when grouping by subgroup
+  subgroupSize: number;
+}
+
+export interface AttributePoint {
+  x: number;
+  y: number;
+  // Limits vary with the number inspected on p and u charts
+  ucl: number;
+  lcl: number;
+  label: string;
+  trnDate: string;
+  inspected: number;
+  nonconforming: number;
+  outOfControl: boolean;
+}
+
+export interface AttributeAnalysis {
+  chartType: AttributeChartType;
+  grouping: AttributeGrouping;
+  center: number;
+  points: AttributePoint[];
+  totalInspected: number;
+  totalNonconforming: number;
+  variableLimits: boolean;
+}
+
+interface AttributeGroup {
+  label: string;
+  trnDate: string;
+  inspected: number;
+  nonconforming: number;
+}
+
+// A reading is nonconforming when it falls outside its own record's spec
+const isNonconforming = (d: InspectionData, value: number) =>
+  isOutOfSpec(value, parseSpecLimits(d));
+
+const groupReadings = (
+  data: InspectionData[],
+  { grouping, subgroupSize }: AttributeAnalysisOptions
+): AttributeGroup[] => {
+  const readings = data
+    .map(d => ({ ...d, value: parseMeasurement(d.ActualSpecification), date: new Date(d.TrnDate) }))
+    .filter(d => !isNaN(d.value))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  if (readings.length === 0) {
+    throw new SpcAnalysisError('No valid data points found');
+  }
+
+  const groups: AttributeGroup[] = [];
+
+  if (grouping === 'day') {
+    readings.forEach(d => {
+      const label = format(d.date, 'dd/MM/yyyy');
+      let group = groups[groups.length - 1];
+      if (!group || group.label !== label) {
+        group = { label, trnDate: d.TrnDate, inspected: 0, nonconforming: 0 };
+        groups.push(group);
+      }
+      group.inspected++;
+      if (isNonconforming(d, d.value)) group.nonconforming++;
+    });
+    return groups;
+  }
+
+  // Readings left over after the last full subgroup are dropped, as on the
+  // variables charts
+  for (let i = 0; i + subgroupSize <= readings.length; i += subgroupSize) {
+    const groupData = readings.slice(i, i + subgroupSize);
+    groups.push({
+      label: `G${groups.length + 1}`,
+      trnDate: groupData[0].TrnDate,
+      inspected: groupData.length,
+      nonconforming: groupData.filter(d => isNonconforming(d, d.value)).length
+    });
+  }
+  return groups;
+};
+
+export const analyzeAttributeData = (
+  data: InspectionData[],
+  options: AttributeAnalysisOptions
+): AttributeAnalysis => {
+  const { chartType, grouping } = options;
+
+  if (data.length === 0) {
+    throw new SpcAnalysisError('No data available for the selected criteria');
+  }
+
+  const groups = groupReadings(data, options);
+
+  if (groups.length < 2) {
+    throw new SpcAnalysisError('Attribute charts need at least 2 groups of readings');
+  }
+
+  const info = ATTRIBUTE_CHART_TYPES[chartType];
+  const variableLimits = groups.some(g => g.inspected !== groups[0].inspected);
+  if (variableLimits && !info.variableSampleSize) {
+    throw new SpcAnalysisError(
+      `${info.label} charts need the same number of readings in every group. ` +
+      `Use a ${chartType === 'np' ? 'p' : 'u'} chart or group by subgroup`
+    );
+  }
+
+  const smallest = groups.reduce((min, g) => (g.inspected < min.inspected ? g : min));
+  if (smallest.inspected < info.minGroupSize) {
+    throw new SpcAnalysisError(
+      `${info.label} charts need at least ${info.minGroupSize} readings per group, but ${smallest.label} has ` +
+      `${smallest.inspected}. ${grouping === 'day' ? 'Use a c or u chart' : 'Use a larger subgroup size or count per day'}`
+    );
+  }
+
+  const totalInspected = groups.reduce((sum, g) => sum + g.inspected, 0);
+  const totalNonconforming = groups.reduce((sum, g) => sum + g.nonconforming, 0);
+  const pBar = totalNonconforming / totalInspected;
+  const n = groups[0].inspected;
+
+  // Center line and 3σ limits for a group of `size` readings
+  const chartFor = (size: number): { center: number; halfWidth: number } => {
+    switch (chartType) {
+      case 'p':
+        return { center: pBar, halfWidth: 3 * Math.sqrt(pBar * (1 - pBar) / size) };
+      case 'np':
+        return { center: n * pBar, halfWidth: 3 * Math.sqrt(n * pBar * (1 - pBar)) };
+      case 'c': {
+        const cBar = totalNonconforming / groups.length;
+        return { center: cBar, halfWidth: 3 * Math.sqrt(cBar) };
+      }
+      case 'u':
+        return { center: pBar, halfWidth: 3 * Math.sqrt(pBar / size) };
+    }
+  };
+
+  const points = groups.map((group, i) => {
+    const { center, halfWidth } = chartFor(group.inspected);
+    const y = chartType === 'p' || chartType === 'u'
+      ? group.nonconforming / group.inspected
+      : group.nonconforming;
+    // A proportion can never exceed 1 and no count can go below 0
+    const ucl = chartType === 'p' ? Math.min(center + halfWidth, 1) : center + halfWidth;
+    const lcl = Math.max(center - halfWidth, 0);
+
+    return {
+      x: i + 1,
+      y,
+      ucl,
+      lcl,
+      label: group.label,
+      trnDate: group.trnDate,
+      inspected: group.inspected,
+      nonconforming: group.nonconforming,
+      outOfControl: y > ucl || y < lcl
+    };
+  });
+
+  return {
+    chartType,
+    grouping,
+    center: chartFor(n).center,
+    points,
+    totalInspected,
+    totalNonconforming,
+    variableLimits
+  };
+};
@@ -0,0 +1,60 @@
+import { ChartType, ControlLimits, SpcAnalysis, SpcAnalysisOptions, SpecHandling } from './types';
+
+// Control limits frozen from a Phase I baseline period. Later (Phase II)
+// analyses of the same characteristic are plotted against these limits.
+export interface ControlLimitBaseline {
+  materialCode: string;
+  operationCode: string;
+  guageCode: string;
+  chartType: ChartType;
+  sampleSize: number;
+  movingRangeSpan?: number;
+  // Limits set on percent-of-tolerance readings are in percent, not units
+  specHandling?: SpecHandling;
+  limits: ControlLimits;
+  periodStart: string;
+  periodEnd: string;
+  setAt: string;
+  setBy: string;
+}
+
+export const getBaselineKey = (materialCode: string, operationCode: string, guageCode: string) =>
+  `${materialCode}|${operationCode}|${guageCode}`;
+
+// On a staged chart the most recent stage becomes the baseline
+export const createBaseline = (
+  { subgroups, specs, stages, controlCharts }: SpcAnalysis,
+  ids: { materialCode: string; operationCode: string; guageCode: string },
+  setBy: string,
+  setAt: Date = new Date()
+): ControlLimitBaseline => {
+  const lastStage = stages[stages.length - 1];
+  const samples = (lastStage ? subgroups.slice(lastStage.start - 1, lastStage.end) : subgroups)
+    .flatMap(sg => sg.samples);
+
+  return {
+    ...ids,
+    chartType: controlCharts.chartType,
+    sampleSize: controlCharts.sampleSize,
+    movingRangeSpan: controlCharts.movingRangeSpan,
+    specHandling: specs.handling,
+    limits: lastStage ? lastStage.limits : controlCharts.limits,
+    periodStart: samples[0].trnDate,
+    periodEnd: samples[samples.length - 1].trnDate,
+    setAt: setAt.toISOString(),
+    setBy
+  };
+};
+
+// Frozen limits only mean something for the chart they were set on
+export const isBaselineCompatible = (
+  baseline: ControlLimitBaseline,
+  { chartType, sampleSize, movingRangeSpan = 2, specHandling = 'revision' }: SpcAnalysisOptions
+): boolean => {
+  if (baseline.chartType !== chartType || (baseline.specHandling ?? 'revision') !== specHandling) {
+    return false;
+  }
+  return chartType === 'i-mr'
+    ? (baseline.movingRangeSpan ?? 2) === movingRangeSpan
+    : baseline.sampleSize === sampleSize;
+};
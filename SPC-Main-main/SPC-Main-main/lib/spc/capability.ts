@@ -0,0 +1,50 @@
+import { SpcAnalysisError } from './errors';
+import { CapabilityIndices, InspectionData, SpecLimits } from './types';
+
+// Guard against division blow-ups when sigma is (almost) zero
+export const clampCapabilityIndex = (value: number): number => {
+  if (!isFinite(value) || Math.abs(value) > 1000) {
+    return 999.999;
+  }
+  return value;
+};
+
+// Blank or non-numeric bounds are read as missing
+const parseSpecLimit = (raw: string): number | null => {
+  const value = parseFloat(raw);
+  return isFinite(value) ? value : null;
+};
+
+export const parseSpecLimits = (d: InspectionData): SpecLimits => ({
+  lsl: parseSpecLimit(d.FromSpecification),
+  usl: parseSpecLimit(d.ToSpecification)
+});
+
+export const validateSpecLimits = ({ lsl, usl }: SpecLimits) => {
+  if (lsl === null && usl === null) {
+    throw new SpcAnalysisError('No specification limits found. At least one of LSL or USL is needed');
+  }
+  if (lsl !== null && usl !== null && usl <= lsl) {
+    throw new SpcAnalysisError('Invalid specification limits: USL must be greater than LSL');
+  }
+};
+
+export const isOutOfSpec = (value: number, { lsl, usl }: SpecLimits) =>
+  (lsl !== null && value < lsl) || (usl !== null && value > usl);
+
+// The worse of the one-sided indices that exist
+export const minCapabilityIndex = (upper: number | null, lower: number | null): number =>
+  clampCapabilityIndex(Math.min(upper ?? Infinity, lower ?? Infinity));
+
+export const calculateCapability = (
+  processMean: number,
+  stdDev: number,
+  lsl: number | null,
+  usl: number | null
+): CapabilityIndices => {
+  const cp = lsl === null || usl === null ? null : clampCapabilityIndex((usl - lsl) / (6 * stdDev));
+  const cpu = usl === null ? null : clampCapabilityIndex((usl - processMean) / (3 * stdDev));
+  const cpl = lsl === null ? null : clampCapabilityIndex((processMean - lsl) / (3 * stdDev));
+
+  return { cp, cpu, cpl, cpk: minCapabilityIndex(cpu, cpl) };
+};
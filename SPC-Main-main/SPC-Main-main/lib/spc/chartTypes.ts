@@ -0,0 +1,37 @@
+import { ChartType } from './types';
+
+export interface ChartTypeInfo {
+  label: string;
+  centerTitle: string;
+  centerAxisLabel: string;
+  spreadTitle: string;
+  spreadAxisLabel: string;
+  spreadSymbol: string;
+}
+
+export const CHART_TYPES: Record<ChartType, ChartTypeInfo> = {
+  'xbar-r': {
+    label: 'X̄-R',
+    centerTitle: 'X-Bar Chart',
+    centerAxisLabel: 'Value',
+    spreadTitle: 'Range Chart',
+    spreadAxisLabel: 'Range',
+    spreadSymbol: 'R̄'
+  },
+  'xbar-s': {
+    label: 'X̄-S',
+    centerTitle: 'X-Bar Chart',
+    centerAxisLabel: 'Value',
+    spreadTitle: 'Standard Deviation Chart',
+    spreadAxisLabel: 'Std Dev',
+    spreadSymbol: 'S̄'
+  },
+  'i-mr': {
+    label: 'I-MR',
+    centerTitle: 'Individuals Chart',
+    centerAxisLabel: 'Individual',
+    spreadTitle: 'Moving Range Chart',
+    spreadAxisLabel: 'Moving Range',
+    spreadSymbol: 'MR̄'
+  }
+};
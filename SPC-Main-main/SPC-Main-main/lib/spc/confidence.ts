@@ -0,0 +1,76 @@
+import { chiSquareQuantile, normalQuantile } from './stats';
+import { CapabilityIndices, CapabilityIntervals, ConfidenceInterval } from './types';
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+// Customers usually require the lower bound, not just the estimate, to
+// clear this value
+export const MIN_CAPABILITY_LOWER_BOUND = 1.33;
+
+const round = (value: number) => Number(value.toFixed(4));
+
+const interval = (estimate: number, lower: number, upper: number, lowerBound: number): ConfidenceInterval => ({
+  estimate: round(estimate),
+  lower: round(lower),
+  upper: round(upper),
+  lowerBound: round(lowerBound)
+});
+
+// Cp and Pp scale with 1/σ, so their limits follow from the chi-square
+// distribution of the variance estimate
+const spreadInterval = (estimate: number, level: number, df: number) => {
+  const alpha = 1 - level;
+  return interval(
+    estimate,
+    estimate * Math.sqrt(chiSquareQuantile(alpha / 2, df) / df),
+    estimate * Math.sqrt(chiSquareQuantile(1 - alpha / 2, df) / df),
+    estimate * Math.sqrt(chiSquareQuantile(alpha, df) / df)
+  );
+};
+
+// Bissell's normal approximation for Cpk-type indices (also used for the
+// one-sided Cpu/Cpl)
+const locationInterval = (estimate: number, level: number, n: number, df: number) => {
+  const alpha = 1 - level;
+  const se = Math.sqrt(1 / (9 * n) + estimate ** 2 / (2 * df));
+  return interval(
+    estimate,
+    estimate - normalQuantile(1 - alpha / 2) * se,
+    estimate + normalQuantile(1 - alpha / 2) * se,
+    estimate - normalQuantile(1 - alpha) * se
+  );
+};
+
+export interface CapabilityIntervalInput {
+  capability: CapabilityIndices;
+  performance: CapabilityIndices;
+  // Readings behind the indices
+  n: number;
+  // Degrees of freedom of σ within: k(n - 1) for k subgroups of n,
+  // readings - 1 on individuals charts
+  withinDegreesOfFreedom: number;
+}
+
+export const calculateCapabilityIntervals = (
+  { capability, performance, n, withinDegreesOfFreedom }: CapabilityIntervalInput,
+  level: number = DEFAULT_CONFIDENCE_LEVEL
+): CapabilityIntervals => {
+  const withinDf = Math.max(withinDegreesOfFreedom, 1);
+  const overallDf = Math.max(n - 1, 1);
+  const orNull = (value: number | null, toInterval: (v: number) => ConfidenceInterval) =>
+    value === null ? null : toInterval(value);
+
+  return {
+    level,
+    cp: orNull(capability.cp, v => spreadInterval(v, level, withinDf)),
+    cpu: orNull(capability.cpu, v => locationInterval(v, level, n, withinDf)),
+    cpl: orNull(capability.cpl, v => locationInterval(v, level, n, withinDf)),
+    cpk: locationInterval(capability.cpk, level, n, withinDf),
+    pp: orNull(performance.cp, v => spreadInterval(v, level, overallDf)),
+    ppu: orNull(performance.cpu, v => locationInterval(v, level, n, overallDf)),
+    ppl: orNull(performance.cpl, v => locationInterval(v, level, n, overallDf)),
+    ppk: locationInterval(performance.cpk, level, n, overallDf)
+  };
+};
@@ -0,0 +1,63 @@
+import { SpcAnalysisError } from './errors';
+
+export interface SpcConstants {
+  A2: number;
+  A3: number;
+  B3: number;
+  B4: number;
+  D3: number;
+  D4: number;
+  d2: number;
+  c4: number;
+  E2: number;
+}
+
+export const MAX_SUBGROUP_SIZE = 25;
+
+// Control chart constants for subgroup sizes 2-25 (ASTM Manual on
+// Presentation of Data and Control Chart Analysis)
+export const SPC_CONSTANTS: Record<number, SpcConstants> = {
+  2: { A2: 1.880, A3: 2.659, B3: 0, B4: 3.267, D3: 0, D4: 3.267, d2: 1.128, c4: 0.7979, E2: 2.660 },
+  3: { A2: 1.023, A3: 1.954, B3: 0, B4: 2.568, D3: 0, D4: 2.574, d2: 1.693, c4: 0.8862, E2: 1.772 },
+  4: { A2: 0.729, A3: 1.628, B3: 0, B4: 2.266, D3: 0, D4: 2.282, d2: 2.059, c4: 0.9213, E2: 1.457 },
+  5: { A2: 0.577, A3: 1.427, B3: 0, B4: 2.089, D3: 0, D4: 2.114, d2: 2.326, c4: 0.9400, E2: 1.290 },
+  6: { A2: 0.483, A3: 1.287, B3: 0.030, B4: 1.970, D3: 0, D4: 2.004, d2: 2.534, c4: 0.9515, E2: 1.184 },
+  7: { A2: 0.419, A3: 1.182, B3: 0.118, B4: 1.882, D3: 0.076, D4: 1.924, d2: 2.704, c4: 0.9594, E2: 1.109 },
+  8: { A2: 0.373, A3: 1.099, B3: 0.185, B4: 1.815, D3: 0.136, D4: 1.864, d2: 2.847, c4: 0.9650, E2: 1.054 },
+  9: { A2: 0.337, A3: 1.032, B3: 0.239, B4: 1.761, D3: 0.184, D4: 1.816, d2: 2.970, c4: 0.9693, E2: 1.010 },
+  10: { A2: 0.308, A3: 0.975, B3: 0.284, B4: 1.716, D3: 0.223, D4: 1.777, d2: 3.078, c4: 0.9727, E2: 0.975 },
+  11: { A2: 0.285, A3: 0.927, B3: 0.321, B4: 1.679, D3: 0.256, D4: 1.744, d2: 3.173, c4: 0.9754, E2: 0.945 },
+  12: { A2: 0.266, A3: 0.886, B3: 0.354, B4: 1.646, D3: 0.283, D4: 1.717, d2: 3.258, c4: 0.9776, E2: 0.921 },
+  13: { A2: 0.249, A3: 0.850, B3: 0.382, B4: 1.618, D3: 0.307, D4: 1.693, d2: 3.336, c4: 0.9794, E2: 0.899 },
+  14: { A2: 0.235, A3: 0.817, B3: 0.406, B4: 1.594, D3: 0.328, D4: 1.672, d2: 3.407, c4: 0.9810, E2: 0.881 },
+  15: { A2: 0.223, A3: 0.789, B3: 0.428, B4: 1.572, D3: 0.347, D4: 1.653, d2: 3.472, c4: 0.9823, E2: 0.864 },
+  16: { A2: 0.212, A3: 0.763, B3: 0.448, B4: 1.552, D3: 0.363, D4: 1.637, d2: 3.532, c4: 0.9835, E2: 0.849 },
+  17: { A2: 0.203, A3: 0.739, B3: 0.466, B4: 1.534, D3: 0.378, D4: 1.622, d2: 3.588, c4: 0.9845, E2: 0.836 },
+  18: { A2: 0.194, A3: 0.718, B3: 0.482, B4: 1.518, D3: 0.391, D4: 1.608, d2: 3.640, c4: 0.9854, E2: 0.824 },
+  19: { A2: 0.187, A3: 0.698, B3: 0.497, B4: 1.503, D3: 0.403, D4: 1.597, d2: 3.689, c4: 0.9862, E2: 0.813 },
+  20: { A2: 0.180, A3: 0.680, B3: 0.510, B4: 1.490, D3: 0.415, D4: 1.585, d2: 3.735, c4: 0.9869, E2: 0.803 },
+  21: { A2: 0.173, A3: 0.663, B3: 0.523, B4: 1.477, D3: 0.425, D4: 1.575, d2: 3.778, c4: 0.9876, E2: 0.794 },
+  22: { A2: 0.167, A3: 0.647, B3: 0.534, B4: 1.466, D3: 0.434, D4: 1.566, d2: 3.819, c4: 0.9882, E2: 0.786 },
+  23: { A2: 0.162, A3: 0.633, B3: 0.545, B4: 1.455, D3: 0.443, D4: 1.557, d2: 3.858, c4: 0.9887, E2: 0.778 },
+  24: { A2: 0.157, A3: 0.619, B3: 0.555, B4: 1.445, D3: 0.451, D4: 1.548, d2: 3.895, c4: 0.9892, E2: 0.770 },
+  25: { A2: 0.153, A3: 0.606, B3: 0.565, B4: 1.435, D3: 0.459, D4: 1.541, d2: 3.931, c4: 0.9896, E2: 0.763 }
+};
+
+// Individuals (n=1) are charted with a moving range of two consecutive
+// points, so they share the n=2 row and use E2 in place of A2
+export const getSpcConstants = (sampleSize: number): SpcConstants => {
+  const constants = SPC_CONSTANTS[Math.max(sampleSize, 2)];
+  if (!constants) {
+    throw new SpcAnalysisError(`Sample size ${sampleSize} is not supported (maximum ${MAX_SUBGROUP_SIZE})`);
+  }
+  return constants;
+};
+
+// Sample sizes that still leave at least two subgroups to set limits from.
+// Without a known point count every tabulated size is offered.
+export const getSupportedSampleSizes = (pointCount?: number): number[] => {
+  const maxSize = pointCount === undefined
+    ? MAX_SUBGROUP_SIZE
+    : Math.min(MAX_SUBGROUP_SIZE, Math.max(1, Math.floor(pointCount / 2)));
+  return Array.from({ length: maxSize }, (_, i) => i + 1);
+};
@@ -0,0 +1,94 @@
+import { ChartPoint, SpcAnalysis } from './types';
+
+// k (allowance) and h (decision interval) are in units of the standard
+// error of the subgroup mean. k = 0.5, h = 5 detects a 1σ shift quickly.
+export interface CusumOptions {
+  // Defaults to the process mean of the analysis
+  target?: number;
+  k: number;
+  h: number;
+}
+
+export const DEFAULT_CUSUM_OPTIONS: CusumOptions = { k: 0.5, h: 5 };
+
+export type CusumDirection = 'up' | 'down';
+
+export interface CusumAlarm {
+  direction: CusumDirection;
+  // Subgroup at which the sum first crossed the decision interval
+  subgroup: number;
+  // First subgroup of the run of non-zero sums that led to the alarm
+  onset: number;
+  // Target plus the average deviation over the run
+  estimatedMean: number;
+}
+
+export interface CusumResult {
+  target: number;
+  // Standard error of the subgroup mean, σ within / √n
+  sigma: number;
+  // k and h converted to measurement units
+  allowance: number;
+  decisionInterval: number;
+  upper: ChartPoint[];
+  lower: ChartPoint[];
+  alarms: CusumAlarm[];
+}
+
+// Tabular CUSUM over the subgroup means. Excluded subgroups are skipped
+// and the sums carry over them.
+export const calculateCusum = (
+  { subgroups, metrics, controlCharts }: SpcAnalysis,
+  { target = metrics.xBar, k, h }: CusumOptions
+): CusumResult => {
+  const excluded = new Set(controlCharts.exclusions.map(e => e.subgroup));
+  const sigma = metrics.stdDevWithin / Math.sqrt(controlCharts.sampleSize);
+  const allowance = k * sigma;
+  const decisionInterval = h * sigma;
+
+  const upper: ChartPoint[] = [];
+  const lower: ChartPoint[] = [];
+  const alarms: CusumAlarm[] = [];
+
+  let cPlus = 0;
+  let cMinus = 0;
+  // Length of the current run of non-zero sums on each side
+  let runPlus = 0;
+  let runMinus = 0;
+
+  subgroups.forEach((subgroup, i) => {
+    const x = i + 1;
+    if (excluded.has(x)) return;
+
+    const wasAbove = cPlus > decisionInterval;
+    const wasBelow = cMinus > decisionInterval;
+
+    cPlus = Math.max(0, subgroup.mean - (target + allowance) + cPlus);
+    cMinus = Math.max(0, (target - allowance) - subgroup.mean + cMinus);
+    runPlus = cPlus > 0 ? runPlus + 1 : 0;
+    runMinus = cMinus > 0 ? runMinus + 1 : 0;
+
+    upper.push({ x, y: cPlus });
+    lower.push({ x, y: cMinus });
+
+    // Report each excursion once, where it first crosses h
+    if (cPlus > decisionInterval && !wasAbove) {
+      alarms.push({
+        direction: 'up',
+        subgroup: x,
+        onset: upper[upper.length - runPlus].x,
+        estimatedMean: target + allowance + cPlus / runPlus
+      });
+    }
+    if (cMinus > decisionInterval && !wasBelow) {
+      alarms.push({
+        direction: 'down',
+        subgroup: x,
+        onset: lower[lower.length - runMinus].x,
+        estimatedMean: target - allowance - cMinus / runMinus
+      });
+    }
+  });
+
+  return { target, sigma, allowance, decisionInterval, upper, lower, alarms };
+};
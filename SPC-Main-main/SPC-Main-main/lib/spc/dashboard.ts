@@ -0,0 +1,91 @@
+import { AttributeAnalysis } from './attributes';
+import { ChartSignal } from './signals';
+import { SpcAnalysis } from './types';
+
+// One row of the multi-gauge dashboard: a characteristic's capability
+// under the same settings as the single-gauge analysis
+export interface GaugeCapabilitySummary {
+  guageCode: string;
+  guageName: string;
+  readings: number;
+  cpk: number | null;
+  ppk: number | null;
+  // Expected overall PPM, from Ppk's distribution
+  ppm: number | null;
+  observedPpm: number | null;
+  violations: number;
+  // Set when the gauge could not be fetched or analyzed
+  error: string | null;
+}
+
+export type GaugeSummarySortKey = 'guageCode' | 'readings' | 'cpk' | 'ppk' | 'ppm' | 'violations';
+
+export type SortDirection = 'asc' | 'desc';
+
+export const summarizeGaugeCapability = (
+  gauge: { guageCode: string; guageName: string },
+  { metrics, defectRates, distribution }: SpcAnalysis,
+  signals: ChartSignal[]
+): GaugeCapabilitySummary => ({
+  ...gauge,
+  readings: distribution.values.length,
+  cpk: metrics.cpk,
+  ppk: metrics.ppk,
+  ppm: defectRates.expectedOverall.total,
+  observedPpm: defectRates.observed.total,
+  violations: signals.length,
+  error: null
+});
+
+// Attribute charts have no capability indices: PPM is the observed
+// nonconforming rate and signals are the out-of-control groups
+export const summarizeAttributeGauge = (
+  gauge: { guageCode: string; guageName: string },
+  { totalInspected, totalNonconforming, points }: AttributeAnalysis
+): GaugeCapabilitySummary => {
+  const ppm = Number(((totalNonconforming / totalInspected) * 1e6).toFixed(2));
+  return {
+    ...gauge,
+    readings: totalInspected,
+    cpk: null,
+    ppk: null,
+    ppm,
+    observedPpm: ppm,
+    violations: points.filter(p => p.outOfControl).length,
+    error: null
+  };
+};
+
+export const failedGaugeSummary = (
+  gauge: { guageCode: string; guageName: string },
+  error: string
+): GaugeCapabilitySummary => ({
+  ...gauge,
+  readings: 0,
+  cpk: null,
+  ppk: null,
+  ppm: null,
+  observedPpm: null,
+  violations: 0,
+  error
+});
+
+// Gauges that failed always sort last, whichever the direction
+export const sortGaugeSummaries = (
+  rows: GaugeCapabilitySummary[],
+  key: GaugeSummarySortKey,
+  direction: SortDirection
+): GaugeCapabilitySummary[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if ((a.error === null) !== (b.error === null)) {
+      return a.error === null ? -1 : 1;
+    }
+    const av = a[key];
+    const bv = b[key];
+    if (av === null || bv === null) {
+      return av === bv ? 0 : av === null ? 1 : -1;
+    }
+    return sign * (typeof av === 'string' ? av.localeCompare(bv as string) : av - (bv as number));
+  });
+};
@@ -0,0 +1,8 @@
+// Raised when the data cannot be analyzed as requested. The message is
+// written for the user and can be shown as-is.
+export class SpcAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpcAnalysisError';
+  }
+}
@@ -0,0 +1,66 @@
+import { SpcAnalysis } from './types';
+
+export interface EwmaOptions {
+  // Defaults to the process mean of the analysis
+  target?: number;
+  // Weight of the newest subgroup mean, 0 < lambda <= 1
+  lambda: number;
+  // Width of the limits in standard errors of the EWMA statistic
+  L: number;
+}
+
+export const DEFAULT_EWMA_OPTIONS: EwmaOptions = { lambda: 0.2, L: 3 };
+
+export interface EwmaPoint {
+  x: number;
+  y: number;
+  ucl: number;
+  lcl: number;
+  outOfControl: boolean;
+}
+
+export interface EwmaResult {
+  target: number;
+  // Standard error of the subgroup mean, σ within / √n
+  sigma: number;
+  points: EwmaPoint[];
+  // Limits the time-varying limits converge to
+  steadyUcl: number;
+  steadyLcl: number;
+}
+
+// EWMA of the subgroup means, starting from the target. Limits widen from
+// the first point towards steady state as (1 - λ)^2i dies away. Excluded
+// subgroups are skipped.
+export const calculateEwma = (
+  { subgroups, metrics, controlCharts }: SpcAnalysis,
+  { target = metrics.xBar, lambda, L }: EwmaOptions
+): EwmaResult => {
+  const excluded = new Set(controlCharts.exclusions.map(e => e.subgroup));
+  const sigma = metrics.stdDevWithin / Math.sqrt(controlCharts.sampleSize);
+  const steadyWidth = L * sigma * Math.sqrt(lambda / (2 - lambda));
+
+  const points: EwmaPoint[] = [];
+  let z = target;
+
+  subgroups.forEach((subgroup, i) => {
+    const x = i + 1;
+    if (excluded.has(x)) return;
+
+    z = lambda * subgroup.mean + (1 - lambda) * z;
+    const step = points.length + 1;
+    const width = steadyWidth * Math.sqrt(1 - Math.pow(1 - lambda, 2 * step));
+    const ucl = target + width;
+    const lcl = target - width;
+
+    points.push({ x, y: z, ucl, lcl, outOfControl: z > ucl || z < lcl });
+  });
+
+  return {
+    target,
+    sigma,
+    points,
+    steadyUcl: target + steadyWidth,
+    steadyLcl: target - steadyWidth
+  };
+};
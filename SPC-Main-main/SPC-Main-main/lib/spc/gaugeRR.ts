@@ -0,0 +1,363 @@
+import { SpcAnalysisError } from './errors';
+import { fDistributionUpperTail, mean } from './stats';
+
+export type GaugeRRMethod = 'anova' | 'average-range';
+
+export const GAUGE_RR_METHODS: { value: GaugeRRMethod; label: string }[] = [
+  { value: 'anova', label: 'Crossed ANOVA' },
+  { value: 'average-range', label: 'Average & Range (AIAG)' }
+];
+
+// A crossed study: every operator measures every part the same number of
+// times. Studies belong to the gauge of one material and operation.
+export interface GaugeStudy {
+  materialCode: string;
+  operationCode: string;
+  guageCode: string;
+  guageName: string;
+  // Spec limits of the characteristic, for %Tolerance
+  lsl: number | null;
+  usl: number | null;
+  operators: string[];
+  parts: number;
+  trials: number;
+  // measurements[operator][part][trial]
+  measurements: number[][][];
+  method: GaugeRRMethod;
+  conductedAt: string;
+  conductedBy: string;
+}
+
+export interface GaugeRRComponent {
+  source: string;
+  // Variances and sigmas stay unrounded; gauge readings are often fine
+  // enough that four decimals would lose them
+  variance: number;
+  stdDev: number;
+  // 6σ spread
+  studyVariation: number;
+  percentContribution: number;
+  percentStudyVariation: number;
+  // Null unless the characteristic has both spec limits
+  percentTolerance: number | null;
+}
+
+export interface AnovaRow {
+  source: string;
+  degreesOfFreedom: number;
+  sumOfSquares: number;
+  meanSquare: number;
+  f: number | null;
+  pValue: number | null;
+}
+
+export type GaugeRRVerdict = 'acceptable' | 'marginal' | 'unacceptable';
+
+export interface GaugeRRResult {
+  method: GaugeRRMethod;
+  guageCode: string;
+  parts: number;
+  operators: number;
+  trials: number;
+  // Equipment variation (EV)
+  repeatability: GaugeRRComponent;
+  // Appraiser variation (AV)
+  reproducibility: GaugeRRComponent;
+  // The parts of reproducibility on the ANOVA method
+  operator: GaugeRRComponent | null;
+  interaction: GaugeRRComponent | null;
+  gaugeRR: GaugeRRComponent;
+  partToPart: GaugeRRComponent;
+  total: GaugeRRComponent;
+  // Number of distinct categories. Null when the gauge shows no variation.
+  ndc: number | null;
+  // Null on the Average & Range method
+  anova: AnovaRow[] | null;
+  // A non-significant operator × part term is pooled into repeatability
+  interactionPooled: boolean;
+  verdict: GaugeRRVerdict;
+}
+
+export const STUDY_VARIATION_SPREAD = 6;
+
+// AIAG MSA guidelines for %GRR and the number of distinct categories
+export const GRR_ACCEPTABLE_PERCENT = 10;
+export const GRR_MARGINAL_PERCENT = 30;
+export const MIN_DISTINCT_CATEGORIES = 5;
+
+// Largest study the study screen can set up or import
+export const MAX_GAUGE_PARTS = 20;
+export const MAX_GAUGE_TRIALS = 5;
+
+// Interaction p-values above this are pooled, as in Minitab
+const ALPHA_TO_REMOVE_INTERACTION = 0.05;
+
+// Average & Range constants (AIAG MSA, 4th edition), keyed by trials,
+// operators and parts
+const K1: Record<number, number> = { 2: 0.8862, 3: 0.5908 };
+const K2: Record<number, number> = { 2: 0.7071, 3: 0.5231 };
+const K3: Record<number, number> = {
+  2: 0.7071, 3: 0.5231, 4: 0.4467, 5: 0.4030, 6: 0.3742,
+  7: 0.3534, 8: 0.3375, 9: 0.3249, 10: 0.3146
+};
+
+const roundPercent = (value: number) => Number(value.toFixed(2));
+
+const validateStudy = ({ operators, parts, trials, measurements }: GaugeStudy) => {
+  if (operators.length < 2) {
+    throw new SpcAnalysisError('A Gauge R&R study needs at least 2 operators');
+  }
+  if (parts < 2) {
+    throw new SpcAnalysisError('A Gauge R&R study needs at least 2 parts');
+  }
+  if (trials < 2) {
+    throw new SpcAnalysisError('A Gauge R&R study needs at least 2 trials per part');
+  }
+  operators.forEach((name, o) => {
+    for (let p = 0; p < parts; p++) {
+      for (let t = 0; t < trials; t++) {
+        if (!isFinite(measurements[o]?.[p]?.[t])) {
+          throw new SpcAnalysisError(`Reading missing for ${name}, part ${p + 1}, trial ${t + 1}`);
+        }
+      }
+    }
+  });
+};
+
+const partMeans = ({ operators, parts, measurements }: GaugeStudy) =>
+  Array.from({ length: parts }, (_, p) => mean(operators.flatMap((_, o) => measurements[o][p])));
+
+const operatorMeans = ({ operators, measurements }: GaugeStudy) =>
+  operators.map((_, o) => mean(measurements[o].flat()));
+
+interface VarianceComponents {
+  repeatability: number;
+  operator: number;
+  interaction: number | null;
+  partToPart: number;
+}
+
+const averageAndRange = (study: GaugeStudy): VarianceComponents => {
+  const { operators, parts, trials, measurements } = study;
+  if (!K1[trials] || !K2[operators.length] || !K3[parts]) {
+    throw new SpcAnalysisError(
+      'The Average & Range method covers 2-3 operators, 2-3 trials and 2-10 parts. Use ANOVA for this study'
+    );
+  }
+
+  const ranges = measurements.flatMap(byPart => byPart.map(r => Math.max(...r) - Math.min(...r)));
+  const ev = mean(ranges) * K1[trials];
+
+  const opMeans = operatorMeans(study);
+  const xDiff = Math.max(...opMeans) - Math.min(...opMeans);
+  // Part of the spread in operator averages is repeatability; remove it
+  const av = Math.sqrt(Math.max((xDiff * K2[operators.length]) ** 2 - ev ** 2 / (parts * trials), 0));
+
+  const pMeans = partMeans(study);
+  const pv = (Math.max(...pMeans) - Math.min(...pMeans)) * K3[parts];
+
+  return { repeatability: ev ** 2, operator: av ** 2, interaction: null, partToPart: pv ** 2 };
+};
+
+const anovaRow = (source: string, sumOfSquares: number, degreesOfFreedom: number) => ({
+  source,
+  degreesOfFreedom,
+  sumOfSquares,
+  meanSquare: sumOfSquares / degreesOfFreedom
+});
+
+const fTest = (
+  row: ReturnType<typeof anovaRow>,
+  error: ReturnType<typeof anovaRow>
+): AnovaRow => {
+  const f = error.meanSquare > 0 ? row.meanSquare / error.meanSquare : null;
+  return {
+    ...row,
+    f,
+    pValue: f === null ? null : fDistributionUpperTail(f, row.degreesOfFreedom, error.degreesOfFreedom)
+  };
+};
+
+const noTest = (row: ReturnType<typeof anovaRow>): AnovaRow => ({ ...row, f: null, pValue: null });
+
+// Two-way crossed ANOVA with the operator × part interaction
+const crossedAnova = (study: GaugeStudy) => {
+  const { operators, parts, trials, measurements } = study;
+  const o = operators.length;
+  const all = measurements.flat(2);
+  const grand = mean(all);
+
+  const ssPart = o * trials * partMeans(study).reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssOperator = parts * trials * operatorMeans(study).reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssTotal = all.reduce((sum, v) => sum + (v - grand) ** 2, 0);
+  const ssRepeat = measurements.reduce(
+    (sum, byPart) => sum + byPart.reduce((cellSum, readings) => {
+      const cellMean = mean(readings);
+      return cellSum + readings.reduce((s, v) => s + (v - cellMean) ** 2, 0);
+    }, 0),
+    0
+  );
+  const ssInteraction = Math.max(ssTotal - ssPart - ssOperator - ssRepeat, 0);
+
+  const part = anovaRow('Part', ssPart, parts - 1);
+  const operator = anovaRow('Operator', ssOperator, o - 1);
+  const interaction = anovaRow('Part × Operator', ssInteraction, (parts - 1) * (o - 1));
+  const repeat = anovaRow('Repeatability', ssRepeat, parts * o * (trials - 1));
+  const total = noTest(anovaRow('Total', ssTotal, parts * o * trials - 1));
+
+  const interactionTest = fTest(interaction, repeat);
+  const pooled = interactionTest.pValue !== null && interactionTest.pValue > ALPHA_TO_REMOVE_INTERACTION;
+
+  if (pooled) {
+    const error = anovaRow(
+      'Repeatability',
+      ssInteraction + ssRepeat,
+      interaction.degreesOfFreedom + repeat.degreesOfFreedom
+    );
+    return {
+      table: [fTest(part, error), fTest(operator, error), noTest(error), total],
+      pooled,
+      components: {
+        repeatability: error.meanSquare,
+        operator: Math.max((operator.meanSquare - error.meanSquare) / (parts * trials), 0),
+        interaction: null,
+        partToPart: Math.max((part.meanSquare - error.meanSquare) / (o * trials), 0)
+      }
+    };
+  }
+
+  return {
+    table: [fTest(part, interaction), fTest(operator, interaction), interactionTest, noTest(repeat), total],
+    pooled,
+    components: {
+      repeatability: repeat.meanSquare,
+      operator: Math.max((operator.meanSquare - interaction.meanSquare) / (parts * trials), 0),
+      interaction: Math.max((interaction.meanSquare - repeat.meanSquare) / trials, 0),
+      partToPart: Math.max((part.meanSquare - interaction.meanSquare) / (o * trials), 0)
+    }
+  };
+};
+
+const judge = (percentGrr: number, ndc: number | null): GaugeRRVerdict => {
+  if (percentGrr > GRR_MARGINAL_PERCENT) return 'unacceptable';
+  if (percentGrr > GRR_ACCEPTABLE_PERCENT) return 'marginal';
+  return ndc !== null && ndc < MIN_DISTINCT_CATEGORIES ? 'marginal' : 'acceptable';
+};
+
+export const analyzeGaugeStudy = (study: GaugeStudy, method: GaugeRRMethod = study.method): GaugeRRResult => {
+  validateStudy(study);
+
+  const anova = method === 'anova' ? crossedAnova(study) : null;
+  const variances = anova ? anova.components : averageAndRange(study);
+
+  const reproducibility = variances.operator + (variances.interaction ?? 0);
+  const gaugeRR = variances.repeatability + reproducibility;
+  const totalVariance = gaugeRR + variances.partToPart;
+  if (!(totalVariance > 0)) {
+    throw new SpcAnalysisError('Every reading in the study is the same, so there is no variation to split');
+  }
+
+  const tolerance = study.lsl !== null && study.usl !== null ? study.usl - study.lsl : null;
+  const component = (source: string, variance: number): GaugeRRComponent => {
+    const stdDev = Math.sqrt(variance);
+    return {
+      source,
+      variance,
+      stdDev,
+      studyVariation: STUDY_VARIATION_SPREAD * stdDev,
+      percentContribution: roundPercent((100 * variance) / totalVariance),
+      percentStudyVariation: roundPercent((100 * stdDev) / Math.sqrt(totalVariance)),
+      percentTolerance: tolerance === null
+        ? null
+        : roundPercent((100 * STUDY_VARIATION_SPREAD * stdDev) / tolerance)
+    };
+  };
+
+  const grr = component('Total Gauge R&R', gaugeRR);
+  const partToPart = component('Part-to-Part', variances.partToPart);
+  const ndc = grr.stdDev > 0 ? Math.max(Math.floor((1.41 * partToPart.stdDev) / grr.stdDev), 1) : null;
+  // Judged on the larger of %Study Var and %Tolerance
+  const percentGrr = Math.max(grr.percentStudyVariation, grr.percentTolerance ?? 0);
+
+  return {
+    method,
+    guageCode: study.guageCode,
+    parts: study.parts,
+    operators: study.operators.length,
+    trials: study.trials,
+    repeatability: component('Repeatability (EV)', variances.repeatability),
+    reproducibility: component('Reproducibility (AV)', reproducibility),
+    operator: anova ? component('Operator', variances.operator) : null,
+    interaction: variances.interaction === null ? null : component('Part × Operator', variances.interaction),
+    gaugeRR: grr,
+    partToPart,
+    total: component('Total Variation', totalVariance),
+    ndc,
+    anova: anova ? anova.table : null,
+    interactionPooled: anova ? anova.pooled : false,
+    verdict: judge(percentGrr, ndc)
+  };
+};
+
+const SEPARATOR = /[,;\t]/;
+
+// Imports readings as one "operator, part, value" row per reading, with an
+// optional header. Repeat rows for the same operator and part are trials,
+// in the order they appear.
+export const parseGaugeStudyCsv = (
+  text: string
+): Pick<GaugeStudy, 'operators' | 'parts' | 'trials' | 'measurements'> => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.split(SEPARATOR).map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+
+  if (rows.length > 0 && isNaN(parseFloat(rows[0][2]))) {
+    rows.shift();
+  }
+  if (rows.length === 0) {
+    throw new SpcAnalysisError('No readings found. Paste one "operator, part, value" row per reading');
+  }
+
+  const operators: string[] = [];
+  const partLabels: string[] = [];
+  const cells = new Map<string, number[]>();
+
+  rows.forEach((cellsInRow, i) => {
+    const [operator, part, raw] = cellsInRow;
+    const value = parseFloat(raw);
+    if (!operator || !part || isNaN(value)) {
+      throw new SpcAnalysisError(`Row ${i + 1} is not an "operator, part, value" reading`);
+    }
+    if (!operators.includes(operator)) operators.push(operator);
+    if (!partLabels.includes(part)) partLabels.push(part);
+    const key = `${operator}|${part}`;
+    cells.set(key, [...(cells.get(key) ?? []), value]);
+  });
+
+  const trials = cells.get(`${operators[0]}|${partLabels[0]}`)?.length ?? 0;
+  const measurements = operators.map(operator =>
+    partLabels.map(part => {
+      const readings = cells.get(`${operator}|${part}`) ?? [];
+      if (readings.length !== trials) {
+        throw new SpcAnalysisError(
+          `${operator} has ${readings.length} reading(s) of part ${part}. Every part needs ${trials} from each operator`
+        );
+      }
+      return readings;
+    })
+  );
+
+  if (partLabels.length < 2 || partLabels.length > MAX_GAUGE_PARTS) {
+    throw new SpcAnalysisError(
+      `The readings cover ${partLabels.length} part(s). A study needs 2 to ${MAX_GAUGE_PARTS} parts`
+    );
+  }
+  if (trials < 2 || trials > MAX_GAUGE_TRIALS) {
+    throw new SpcAnalysisError(
+      `The readings have ${trials} trial(s) per part. A study needs 2 to ${MAX_GAUGE_TRIALS} trials`
+    );
+  }
+
+  return { operators, parts: partLabels.length, trials, measurements };
+};
@@ -0,0 +1,87 @@
+// Plant-wide capability: every characteristic's Cpk, laid out as
+// material × operation or, for one material, operation × gauge
+
+export type HeatMapLayout = 'material-operation' | 'operation-gauge';
+
+export const HEAT_MAP_LAYOUTS: { value: HeatMapLayout; label: string }[] = [
+  { value: 'material-operation', label: 'Material × Operation' },
+  { value: 'operation-gauge', label: 'Operation × Gauge (one material)' }
+];
+
+export interface CharacteristicCapability {
+  materialCode: string;
+  materialName: string;
+  operationCode: string;
+  operationName: string;
+  guageCode: string;
+  guageName: string;
+  readings: number;
+  cpk: number | null;
+  // Set when the characteristic could not be fetched or analyzed
+  error: string | null;
+}
+
+export interface HeatMapAxisItem {
+  key: string;
+  label: string;
+}
+
+export interface HeatMapCell {
+  // Lowest Cpk among the characteristics in the cell
+  worstCpk: number | null;
+  worstGauge: string | null;
+  characteristics: CharacteristicCapability[];
+  failed: number;
+}
+
+export interface CapabilityHeatMap {
+  layout: HeatMapLayout;
+  rows: HeatMapAxisItem[];
+  columns: HeatMapAxisItem[];
+  // Keyed by heatMapCellKey; empty combinations have no cell
+  cells: Record<string, HeatMapCell>;
+}
+
+export const heatMapCellKey = (row: string, column: string) => `${row}|${column}`;
+
+const axes = (c: CharacteristicCapability, layout: HeatMapLayout) =>
+  layout === 'material-operation'
+    ? {
+      row: { key: c.materialCode, label: c.materialName || c.materialCode },
+      column: { key: c.operationCode, label: c.operationName || c.operationCode }
+    }
+    : {
+      row: { key: c.operationCode, label: c.operationName || c.operationCode },
+      column: { key: c.guageCode, label: c.guageName || c.guageCode }
+    };
+
+const addAxisItem = (items: HeatMapAxisItem[], item: HeatMapAxisItem) => {
+  if (!items.some(existing => existing.key === item.key)) items.push(item);
+};
+
+export const buildCapabilityHeatMap = (
+  characteristics: CharacteristicCapability[],
+  layout: HeatMapLayout
+): CapabilityHeatMap => {
+  const rows: HeatMapAxisItem[] = [];
+  const columns: HeatMapAxisItem[] = [];
+  const cells: Record<string, HeatMapCell> = {};
+
+  characteristics.forEach(c => {
+    const { row, column } = axes(c, layout);
+    addAxisItem(rows, row);
+    addAxisItem(columns, column);
+
+    const key = heatMapCellKey(row.key, column.key);
+    const cell = cells[key] ?? (cells[key] = { worstCpk: null, worstGauge: null, characteristics: [], failed: 0 });
+    cell.characteristics.push(c);
+    if (c.error !== null) {
+      cell.failed++;
+    } else if (c.cpk !== null && (cell.worstCpk === null || c.cpk < cell.worstCpk)) {
+      cell.worstCpk = c.cpk;
+      cell.worstGauge = c.guageCode;
+    }
+  });
+
+  return { layout, rows, columns, cells };
+};
@@ -0,0 +1,118 @@
+import { isOutOfSpec } from './capability';
+import { SpcAnalysisError } from './errors';
+import { normalPdf, quantile, sampleStdDev } from './stats';
+import { BinningRule, ChartPoint, Histogram, HistogramOptions } from './types';
+
+export const BINNING_RULES: { value: BinningRule; label: string }[] = [
+  { value: 'sqrt', label: 'Square root (√n)' },
+  { value: 'sturges', label: 'Sturges' },
+  { value: 'scott', label: 'Scott' },
+  { value: 'freedman-diaconis', label: 'Freedman-Diaconis' },
+  { value: 'manual', label: 'Manual width' }
+];
+
+export const DEFAULT_HISTOGRAM_OPTIONS: HistogramOptions = { rule: 'sqrt', includeSpecs: false };
+
+const MAX_BINS = 200;
+
+const ruleBinWidth = (values: number[], { rule, binWidth }: HistogramOptions): number => {
+  const n = values.length;
+  const span = Math.max(...values) - Math.min(...values);
+
+  switch (rule) {
+    case 'sqrt':
+      return span / Math.ceil(Math.sqrt(n));
+    case 'sturges':
+      return span / (Math.ceil(Math.log2(n)) + 1);
+    case 'scott':
+      return 3.49 * sampleStdDev(values) * Math.pow(n, -1 / 3);
+    case 'freedman-diaconis': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+      // Fall back to Scott when most readings are identical
+      return iqr > 0
+        ? 2 * iqr * Math.pow(n, -1 / 3)
+        : ruleBinWidth(values, { rule: 'scott', includeSpecs: false });
+    }
+    case 'manual':
+      if (binWidth === undefined || !(binWidth > 0)) {
+        throw new SpcAnalysisError('Enter a bin width greater than 0');
+      }
+      return binWidth;
+  }
+};
+
+// Bins of equal width that always cover every reading, and the spec limits
+// too when asked. With an anchor, bin edges fall on anchor + k × width.
+export const buildHistogram = (
+  values: number[],
+  lsl: number | null,
+  usl: number | null,
+  options: HistogramOptions = DEFAULT_HISTOGRAM_OPTIONS
+): Histogram => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const processWidth = max - min;
+
+  const from = options.includeSpecs && lsl !== null ? Math.min(min, lsl) : min;
+  const to = options.includeSpecs && usl !== null ? Math.max(max, usl) : max;
+
+  const ruleWidth = ruleBinWidth(values, options);
+  // Identical readings give a zero width; fall back to one bin over the range
+  const binWidth = ruleWidth > 0 && isFinite(ruleWidth)
+    ? ruleWidth
+    : Math.max(to - from, Math.abs(min) * 0.01, 1e-6);
+
+  const anchor = options.rule === 'manual' ? options.anchor : undefined;
+  const binStart = anchor !== undefined && isFinite(anchor)
+    ? anchor - Math.ceil((anchor - from) / binWidth) * binWidth
+    : from;
+  // The small allowance stops rounding error adding an empty last bin
+  const numberOfBins = Math.max(Math.ceil((to - binStart) / binWidth - 1e-9), 1);
+
+  if (numberOfBins > MAX_BINS) {
+    throw new SpcAnalysisError(
+      `That bin width gives ${numberOfBins} bins. Use a width of at least ${((to - binStart) / MAX_BINS).toPrecision(2)}`
+    );
+  }
+
+  const target = lsl !== null && usl !== null ? (usl + lsl) / 2 : null;
+
+  const binCounts = new Array(numberOfBins).fill(0);
+  values.forEach(value => {
+    // The maximum can land exactly on the last edge
+    const binIndex = Math.min(
+      Math.floor((value - binStart) / binWidth),
+      numberOfBins - 1
+    );
+    binCounts[binIndex]++;
+  });
+
+  const bins = binCounts.map((count, i) => ({
+    x: binStart + (i * binWidth) + (binWidth / 2),
+    y: count,
+    isWithinSpec: !isOutOfSpec(binStart + i * binWidth, { lsl, usl }) &&
+      !isOutOfSpec(binStart + (i + 1) * binWidth, { lsl, usl }),
+    containsTarget: target !== null &&
+      (binStart + i * binWidth) <= target && (binStart + (i + 1) * binWidth) >= target
+  }));
+
+  return { bins, numberOfBins, min, max, processWidth, binWidth, binStart };
+};
+
+// A normal density over mean ± 4σ, scaled to the histogram's counts so it
+// can be drawn over the bars
+export const calculateNormalCurve = (
+  processMean: number,
+  stdDev: number,
+  count: number,
+  binWidth: number,
+  points = 60
+): ChartPoint[] => {
+  const from = processMean - 4 * stdDev;
+  const step = (8 * stdDev) / (points - 1);
+  return Array.from({ length: points }, (_, i) => {
+    const x = from + i * step;
+    return { x, y: (count * binWidth * normalPdf((x - processMean) / stdDev)) / stdDev };
+  });
+};
@@ -0,0 +1,25 @@
+export * from './types';
+export * from './errors';
+export * from './constants';
+export * from './chartTypes';
+export * from './stats';
+export * from './subgroups';
+export * from './limits';
+export * from './capability';
+export * from './confidence';
+export * from './ppm';
+export * from './histogram';
+export * from './normality';
+export * from './nonNormal';
+export * from './specRevisions';
+export * from './rules';
+export * from './stages';
+export * from './signals';
+export * from './cusum';
+export * from './ewma';
+export * from './attributes';
+export * from './gaugeRR';
+export * from './dashboard';
+export * from './heatMap';
+export * from './baseline';
+export * from './analyze';
@@ -0,0 +1,121 @@
+import { getSpcConstants } from './constants';
+import { SpcAnalysisError } from './errors';
+import { mean } from './stats';
+import { ChartPoint, ControlLimits, SpcAnalysisOptions, Subgroup } from './types';
+
+export const MOVING_RANGE_SPANS = [2, 3, 4, 5];
+
+// Range of each run of `span` consecutive values. The first moving range
+// belongs to the span-th value, so there are span - 1 fewer of them.
+export const calculateMovingRanges = (values: number[], span: number): number[] => {
+  const movingRanges: number[] = [];
+  for (let i = span - 1; i < values.length; i++) {
+    const window = values.slice(i - span + 1, i + 1);
+    movingRanges.push(Math.max(...window) - Math.min(...window));
+  }
+  return movingRanges;
+};
+
+// Points of the lower chart, numbered to line up with the subgroups
+export const calculateSpreadData = (
+  subgroups: Subgroup[],
+  { chartType, movingRangeSpan = 2 }: SpcAnalysisOptions
+): ChartPoint[] => {
+  if (chartType === 'i-mr') {
+    const movingRanges = calculateMovingRanges(subgroups.map(sg => sg.mean), movingRangeSpan);
+    return movingRanges.map((mr, i) => ({ x: i + movingRangeSpan, y: mr }));
+  }
+
+  return subgroups.map((sg, i) => ({
+    x: i + 1,
+    y: chartType === 'xbar-s' ? sg.stdDev : sg.range
+  }));
+};
+
+// A lower chart point is excluded when any subgroup it is calculated from
+// is. On I-MR charts that includes the span - 1 readings before it.
+export const isSpreadPointExcluded = (
+  x: number,
+  excluded: Set<number>,
+  { chartType, movingRangeSpan = 2 }: SpcAnalysisOptions
+): boolean => {
+  const span = chartType === 'i-mr' ? movingRangeSpan : 1;
+  for (let sg = x - span + 1; sg <= x; sg++) {
+    if (excluded.has(sg)) return true;
+  }
+  return false;
+};
+
+// `excluded` holds 1-based subgroup numbers left out of the calculation
+export const calculateControlLimits = (
+  subgroups: Subgroup[],
+  options: SpcAnalysisOptions,
+  excluded: Set<number> = new Set()
+): ControlLimits => {
+  const { chartType, sampleSize, movingRangeSpan = 2 } = options;
+  const spreadData = calculateSpreadData(subgroups, options)
+    .filter(p => !isSpreadPointExcluded(p.x, excluded, options));
+
+  if (spreadData.length === 0) {
+    throw new SpcAnalysisError(
+      excluded.size > 0
+        ? 'Too many points excluded to calculate control limits'
+        : `Not enough data points for a moving range span of ${movingRangeSpan}`
+    );
+  }
+
+  const xBarMean = mean(subgroups.filter((_, i) => !excluded.has(i + 1)).map(sg => sg.mean));
+  const spreadMean = Math.max(mean(spreadData.map(p => p.y)), 0.0001);
+
+  if (chartType === 'i-mr') {
+    const { D3, D4, E2 } = getSpcConstants(movingRangeSpan);
+
+    return {
+      xBarUcl: xBarMean + E2 * spreadMean,
+      xBarLcl: xBarMean - E2 * spreadMean,
+      xBarMean,
+      spreadUcl: D4 * spreadMean,
+      spreadLcl: D3 * spreadMean,
+      spreadMean
+    };
+  }
+
+  const { A2, A3, B3, B4, D3, D4 } = getSpcConstants(sampleSize);
+
+  if (chartType === 'xbar-s') {
+    return {
+      xBarUcl: xBarMean + A3 * spreadMean,
+      xBarLcl: xBarMean - A3 * spreadMean,
+      xBarMean,
+      spreadUcl: B4 * spreadMean,
+      spreadLcl: B3 * spreadMean,
+      spreadMean
+    };
+  }
+
+  return {
+    xBarUcl: xBarMean + A2 * spreadMean,
+    xBarLcl: xBarMean - A2 * spreadMean,
+    xBarMean,
+    spreadUcl: D4 * spreadMean,
+    spreadLcl: D3 * spreadMean,
+    spreadMean
+  };
+};
+
+// Short-term sigma from the average range (R̄/d2, MR̄/d2) or average
+// standard deviation (S̄/c4) of the lower chart
+export const estimateWithinStdDev = (
+  spreadMean: number,
+  { chartType, sampleSize, movingRangeSpan = 2 }: SpcAnalysisOptions
+): { stdDev: number; basis: string } => {
+  if (chartType === 'i-mr') {
+    const { d2 } = getSpcConstants(movingRangeSpan);
+    return { stdDev: Math.max(spreadMean / d2, 0.0001), basis: 'MR̄/d2' };
+  }
+
+  const { d2, c4 } = getSpcConstants(sampleSize);
+  return chartType === 'xbar-s'
+    ? { stdDev: Math.max(spreadMean / c4, 0.0001), basis: 'S̄/c4' }
+    : { stdDev: Math.max(spreadMean / d2, 0.0001), basis: 'R̄/d2' };
+};
@@ -0,0 +1,346 @@
+import { calculateCapability, clampCapabilityIndex, minCapabilityIndex } from './capability';
+import { SpcAnalysisError } from './errors';
+import { calculateControlLimits, estimateWithinStdDev } from './limits';
+import { andersonDarlingTest, shapiroWilkTest } from './normality';
+import { mean, normalCdf, quantile, sampleStdDev } from './stats';
+import {
+  CapabilityMethod,
+  NonNormalCapability,
+  NormalityTestResult,
+  SpcAnalysisOptions,
+  Subgroup
+} from './types';
+
+export const CAPABILITY_METHODS: { value: CapabilityMethod; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'box-cox', label: 'Box-Cox transformation' },
+  { value: 'johnson', label: 'Johnson transformation' },
+  { value: 'percentile', label: 'Percentile method (ISO 22514)' }
+];
+
+export interface NonNormalInput {
+  subgroups: Subgroup[];
+  excluded: Set<number>;
+  chartOptions: SpcAnalysisOptions;
+  // Readings left after exclusions
+  values: number[];
+  lsl: number | null;
+  usl: number | null;
+}
+
+type Transform = (x: number) => number;
+
+const round = (value: number) => Number(value.toFixed(4));
+
+const roundOrNull = (value: number | null) => value === null ? null : round(value);
+
+// Goodness of fit used to compare candidate transforms
+const normalityOf = (values: number[]): NormalityTestResult | null =>
+  andersonDarlingTest(values) ?? shapiroWilkTest(values);
+
+// Cp/Cpk and Pp/Ppk on the transformed scale. Subgroups are transformed
+// reading by reading so the within sigma comes from the same chart statistic.
+const transformedIndices = (
+  { subgroups, excluded, chartOptions, values, lsl, usl }: NonNormalInput,
+  transform: Transform
+) => {
+  const transformedSubgroups = subgroups.map(sg => {
+    const tValues = sg.values.map(transform);
+    return {
+      ...sg,
+      values: tValues,
+      mean: mean(tValues),
+      range: Math.max(...tValues) - Math.min(...tValues),
+      stdDev: sampleStdDev(tValues)
+    };
+  });
+  const tValues = values.map(transform);
+
+  const limits = calculateControlLimits(transformedSubgroups, chartOptions, excluded);
+  const within = estimateWithinStdDev(limits.spreadMean, chartOptions).stdDev;
+  const overall = Math.max(sampleStdDev(tValues), 1e-12);
+  // Specs outside the transform's range behave as a missing limit
+  const transformSpec = (spec: number | null) => {
+    const t = spec === null ? NaN : transform(spec);
+    return isFinite(t) ? t : null;
+  };
+  const tLsl = transformSpec(lsl);
+  const tUsl = transformSpec(usl);
+  if (tLsl === null && tUsl === null) {
+    throw new SpcAnalysisError('Both spec limits fall outside the range of the fitted distribution');
+  }
+
+  const capability = calculateCapability(limits.xBarMean, within, tLsl, tUsl);
+  const performance = calculateCapability(mean(tValues), overall, tLsl, tUsl);
+
+  return {
+    cp: roundOrNull(capability.cp),
+    cpk: round(capability.cpk),
+    pp: roundOrNull(performance.cp),
+    ppu: roundOrNull(performance.cpu),
+    ppl: roundOrNull(performance.cpl),
+    ppk: round(performance.cpk),
+    transformedNormality: normalityOf(tValues)
+  };
+};
+
+// Box-Cox
+
+const boxCox = (lambda: number): Transform => x => {
+  if (x <= 0) return -Infinity;
+  return Math.abs(lambda) < 1e-9 ? Math.log(x) : (Math.pow(x, lambda) - 1) / lambda;
+};
+
+// Maximum likelihood lambda over -5..5 in steps of 0.01
+const fitBoxCoxLambda = (values: number[]): number => {
+  const n = values.length;
+  const sumLog = values.reduce((sum, v) => sum + Math.log(v), 0);
+  let best = { lambda: 1, logLikelihood: -Infinity };
+
+  for (let step = -500; step <= 500; step++) {
+    const lambda = step / 100;
+    const transformed = values.map(boxCox(lambda));
+    const m = mean(transformed);
+    const variance = transformed.reduce((sum, v) => sum + (v - m) ** 2, 0) / n;
+    if (!(variance > 0) || !isFinite(variance)) continue;
+
+    const logLikelihood = -(n / 2) * Math.log(variance) + (lambda - 1) * sumLog;
+    if (logLikelihood > best.logLikelihood) {
+      best = { lambda, logLikelihood };
+    }
+  }
+  return best.lambda;
+};
+
+// Johnson (Slifker & Shapiro percentile fit)
+
+interface JohnsonFit {
+  family: 'SU' | 'SB' | 'SL';
+  gamma: number;
+  eta: number;
+  epsilon: number;
+  lambda: number;
+  // Left-skewed SL fits are made on the negated readings
+  reflected: boolean;
+}
+
+const johnsonTransform = (fit: JohnsonFit): Transform => {
+  const { family, gamma, eta, epsilon, lambda, reflected } = fit;
+  const forward = (x: number) => {
+    switch (family) {
+      case 'SU':
+        return gamma + eta * Math.asinh((x - epsilon) / lambda);
+      case 'SB':
+        if (x <= epsilon) return -Infinity;
+        if (x >= epsilon + lambda) return Infinity;
+        return gamma + eta * Math.log((x - epsilon) / (lambda + epsilon - x));
+      case 'SL':
+        return x <= epsilon ? -Infinity : gamma + eta * Math.log(x - epsilon);
+    }
+  };
+  return reflected ? x => -forward(-x) : forward;
+};
+
+const johnsonInverse = (fit: JohnsonFit, z: number): number => {
+  const { family, gamma, eta, epsilon, lambda, reflected } = fit;
+  const u = ((reflected ? -z : z) - gamma) / eta;
+  const x = family === 'SU'
+    ? epsilon + lambda * Math.sinh(u)
+    : family === 'SB'
+      ? epsilon + lambda / (1 + Math.exp(-u))
+      : epsilon + Math.exp(u);
+  return reflected ? -x : x;
+};
+
+const fitJohnsonAt = (sorted: number[], z: number): JohnsonFit | null => {
+  const x3 = quantile(sorted, normalCdf(3 * z));
+  const x1 = quantile(sorted, normalCdf(z));
+  const xm1 = quantile(sorted, normalCdf(-z));
+  const xm3 = quantile(sorted, normalCdf(-3 * z));
+  const m = x3 - x1;
+  const n = xm1 - xm3;
+  const p = x1 - xm1;
+
+  if (m <= 0 || n <= 0 || p <= 0) return null;
+
+  const mp = m / p;
+  const np = n / p;
+  const d = mp * np;
+  const center = (x1 + xm1) / 2;
+
+  if (d > 1.001) {
+    const eta = (2 * z) / Math.acosh(0.5 * (mp + np));
+    const gamma = eta * Math.asinh((np - mp) / (2 * Math.sqrt(d - 1)));
+    const lambda = (2 * p * Math.sqrt(d - 1)) / ((mp + np - 2) * Math.sqrt(mp + np + 2));
+    const epsilon = center + (p * (np - mp)) / (2 * (mp + np - 2));
+    return { family: 'SU', gamma, eta, epsilon, lambda, reflected: false };
+  }
+
+  if (d < 0.999) {
+    const pm = p / m;
+    const pn = p / n;
+    const product = (1 + pm) * (1 + pn);
+    const eta = z / Math.acosh(0.5 * Math.sqrt(product));
+    const gamma = eta * Math.asinh(((pn - pm) * Math.sqrt(product - 4)) / (2 * (pm * pn - 1)));
+    const lambda = (p * Math.sqrt((product - 2) ** 2 - 4)) / (pm * pn - 1);
+    const epsilon = center - lambda / 2 + (p * (pn - pm)) / (2 * (pm * pn - 1));
+    return { family: 'SB', gamma, eta, epsilon, lambda, reflected: false };
+  }
+
+  // Lognormal: right skew when m > n, otherwise fit the mirror image
+  const reflected = m < n;
+  const [mr, cUpper, cLower] = reflected ? [np, -xm1, -x1] : [mp, x1, xm1];
+  if (Math.abs(mr - 1) < 1e-9) return null;
+  const eta = (2 * z) / Math.log(mr);
+  const gamma = eta * Math.log((mr - 1) / (p * Math.sqrt(mr)));
+  const epsilon = (cUpper + cLower) / 2 - (p / 2) * ((mr + 1) / (mr - 1));
+  return { family: 'SL', gamma, eta, epsilon, lambda: 1, reflected };
+};
+
+// Bounded (SB) and lognormal (SL) fits put no probability beyond their
+// bounds, so a spec outside them has no transformed value
+const coversSpecs = (transform: Transform, specs: (number | null)[]) =>
+  specs.every(spec => spec === null || isFinite(transform(spec)));
+
+const johnsonRange = ({ family, epsilon, lambda, reflected }: JohnsonFit) => {
+  if (family === 'SB') return `${round(epsilon)} to ${round(epsilon + lambda)}`;
+  return reflected ? `below ${round(-epsilon)}` : `above ${round(epsilon)}`;
+};
+
+interface JohnsonSelection {
+  // Best fit whose range covers the specs
+  fit: JohnsonFit | null;
+  // Better-fitting candidate passed over because a spec lies outside it
+  rejected: JohnsonFit | null;
+}
+
+// Try z = 0.25..1.25 and keep the fit whose transformed readings look the
+// most normal, among those that cover the given specs
+const fitJohnson = (values: number[], specs: (number | null)[] = []): JohnsonSelection => {
+  const sorted = [...values].sort((a, b) => a - b);
+  let best: { fit: JohnsonFit; pValue: number } | null = null;
+  let rejected: { fit: JohnsonFit; pValue: number } | null = null;
+
+  for (let step = 25; step <= 125; step += 5) {
+    const fit = fitJohnsonAt(sorted, step / 100);
+    if (!fit || ![fit.gamma, fit.eta, fit.epsilon, fit.lambda].every(isFinite)) continue;
+
+    const transform = johnsonTransform(fit);
+    const transformed = values.map(transform);
+    if (!transformed.every(isFinite)) continue;
+
+    const pValue = normalityOf(transformed)?.pValue ?? 0;
+    if (!coversSpecs(transform, specs)) {
+      if (!rejected || pValue > rejected.pValue) rejected = { fit, pValue };
+    } else if (!best || pValue > best.pValue) {
+      best = { fit, pValue };
+    }
+  }
+
+  return {
+    fit: best?.fit ?? null,
+    rejected: rejected && (!best || rejected.pValue > best.pValue) ? rejected.fit : null
+  };
+};
+
+const johnsonParameters = (fit: JohnsonFit) => [
+  { label: 'γ', value: round(fit.gamma) },
+  { label: 'η', value: round(fit.eta) },
+  { label: 'ε', value: round(fit.epsilon) },
+  ...(fit.family === 'SL' ? [] : [{ label: 'λ', value: round(fit.lambda) }])
+];
+
+const boxCoxCapability = (input: NonNormalInput, warning: string | null): NonNormalCapability => {
+  const lambda = fitBoxCoxLambda(input.values);
+  return {
+    method: 'box-cox',
+    description: `Box-Cox, λ = ${lambda.toFixed(2)}`,
+    parameters: [{ label: 'λ', value: lambda }],
+    ...transformedIndices(input, boxCox(lambda)),
+    warning
+  };
+};
+
+// A fit that leaves out a spec limit is never used for indices: the next
+// best Johnson fit is, or Box-Cox when no Johnson fit covers both limits
+const johnsonCapability = (input: NonNormalInput): NonNormalCapability => {
+  const { values, lsl, usl } = input;
+  const { fit, rejected } = fitJohnson(values, [lsl, usl]);
+  const excluded = rejected && `The Johnson ${rejected.family} fit (${johnsonRange(rejected)}) leaves out a spec limit`;
+
+  if (fit) {
+    return {
+      method: 'johnson',
+      description: `Johnson ${fit.family}${fit.reflected ? ' (mirrored)' : ''}`,
+      parameters: johnsonParameters(fit),
+      ...transformedIndices(input, johnsonTransform(fit)),
+      warning: excluded && `${excluded}, so the best fit that covers both was used`
+    };
+  }
+
+  if (!excluded) {
+    throw new SpcAnalysisError('Could not fit a Johnson distribution to these readings');
+  }
+  if (values.some(v => v <= 0)) {
+    throw new SpcAnalysisError(`${excluded} and Box-Cox needs every reading to be greater than 0. Try the percentile method`);
+  }
+  return boxCoxCapability(input, `${excluded}, so Box-Cox was used instead`);
+};
+
+export const calculateNonNormalCapability = (
+  method: CapabilityMethod,
+  input: NonNormalInput
+): NonNormalCapability | null => {
+  const { values, lsl, usl } = input;
+
+  if (method === 'normal') {
+    return null;
+  }
+
+  if (values.length < 8) {
+    throw new SpcAnalysisError('Non-normal capability needs at least 8 readings');
+  }
+
+  if (method === 'box-cox') {
+    if (values.some(v => v <= 0)) {
+      throw new SpcAnalysisError('Box-Cox needs every reading to be greater than 0. Try the Johnson transformation');
+    }
+    return boxCoxCapability(input, null);
+  }
+
+  if (method === 'johnson') {
+    return johnsonCapability(input);
+  }
+
+  // The percentile method works on the original scale, so any fit will do
+  const { fit } = fitJohnson(values);
+  if (!fit) {
+    throw new SpcAnalysisError('Could not fit a Johnson distribution to these readings');
+  }
+
+  // ISO 22514-2 percentile indices, with the 0.135%, 50% and 99.865%
+  // points taken from the fitted Johnson curve rather than the raw tails
+  const lower = johnsonInverse(fit, -3);
+  const median = johnsonInverse(fit, 0);
+  const upper = johnsonInverse(fit, 3);
+  const ppu = usl === null ? null : clampCapabilityIndex((usl - median) / (upper - median));
+  const ppl = lsl === null ? null : clampCapabilityIndex((median - lsl) / (median - lower));
+
+  return {
+    method,
+    description: `Percentiles from Johnson ${fit.family} fit`,
+    parameters: [
+      { label: 'X0.135%', value: round(lower) },
+      { label: 'X50%', value: round(median) },
+      { label: 'X99.865%', value: round(upper) }
+    ],
+    cp: null,
+    cpk: null,
+    pp: usl === null || lsl === null ? null : round(clampCapabilityIndex((usl - lsl) / (upper - lower))),
+    ppu: roundOrNull(ppu),
+    ppl: roundOrNull(ppl),
+    ppk: round(minCapabilityIndex(ppu, ppl)),
+    transformedNormality: null,
+    warning: null
+  };
+};
@@ -0,0 +1,116 @@
+import { mean, normalCdf, normalQuantile, sampleStdDev } from './stats';
+import { NormalityResult, NormalityTestResult, ProbabilityPlotPoint } from './types';
+
+const clampProbability = (p: number) => Math.min(Math.max(p, 0), 1);
+
+// Anderson-Darling with mean and sigma estimated from the data, using the
+// small-sample correction and p-value curves of D'Agostino & Stephens
+export const andersonDarlingTest = (values: number[]): NormalityTestResult | null => {
+  const n = values.length;
+  const sd = sampleStdDev(values);
+  if (n < 8 || sd === 0) return null;
+
+  const m = mean(values);
+  const sorted = [...values].sort((a, b) => a - b);
+  // Keep the logs finite for readings far out in the tails
+  const cdf = sorted.map(v => Math.min(Math.max(normalCdf((v - m) / sd), 1e-12), 1 - 1e-12));
+
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (2 * i + 1) * (Math.log(cdf[i]) + Math.log(1 - cdf[n - 1 - i]));
+  }
+  const a2 = -n - sum / n;
+  const adjusted = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+
+  let pValue: number;
+  if (adjusted >= 0.6) {
+    pValue = Math.exp(1.2937 - 5.709 * adjusted + 0.0186 * adjusted ** 2);
+  } else if (adjusted >= 0.34) {
+    pValue = Math.exp(0.9177 - 4.279 * adjusted - 1.38 * adjusted ** 2);
+  } else if (adjusted >= 0.2) {
+    pValue = 1 - Math.exp(-8.318 + 42.796 * adjusted - 59.938 * adjusted ** 2);
+  } else {
+    pValue = 1 - Math.exp(-13.436 + 101.14 * adjusted - 223.73 * adjusted ** 2);
+  }
+
+  return { statistic: a2, pValue: clampProbability(pValue) };
+};
+
+const polynomial = (coefficients: number[], x: number) =>
+  coefficients.reduce((sum, c, i) => sum + c * x ** i, 0);
+
+// Shapiro-Wilk W with Royston's (1995, AS R94) coefficients and p-value
+export const shapiroWilkTest = (values: number[]): NormalityTestResult | null => {
+  const n = values.length;
+  if (n < 3 || n > 5000 || sampleStdDev(values) === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const a = new Array<number>(n).fill(0);
+
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = sorted.map((_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+    const mm = m.reduce((sum, v) => sum + v * v, 0);
+    const u = 1 / Math.sqrt(n);
+
+    const an = m[n - 1] / Math.sqrt(mm) +
+      polynomial([0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056], u);
+
+    if (n > 5) {
+      const an1 = m[n - 2] / Math.sqrt(mm) +
+        polynomial([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+      const phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+      for (let i = 2; i < n - 2; i++) a[i] = m[i] / Math.sqrt(phi);
+      a[n - 2] = an1;
+      a[1] = -an1;
+    } else {
+      const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+      for (let i = 1; i < n - 1; i++) a[i] = m[i] / Math.sqrt(phi);
+    }
+    a[n - 1] = an;
+    a[0] = -an;
+  }
+
+  const m = mean(sorted);
+  const ssq = sorted.reduce((sum, v) => sum + (v - m) ** 2, 0);
+  const numerator = sorted.reduce((sum, v, i) => sum + a[i] * v, 0) ** 2;
+  const w = Math.min(numerator / ssq, 1);
+
+  let pValue: number;
+  if (n === 3) {
+    pValue = (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75)));
+  } else if (n <= 11) {
+    const gamma = -2.273 + 0.459 * n;
+    const mu = polynomial([0.544, -0.39978, 0.025054, -6.714e-4], n);
+    const sigma = Math.exp(polynomial([1.3822, -0.77857, 0.062767, -0.0020322], n));
+    const z = (-Math.log(gamma - Math.log(1 - w)) - mu) / sigma;
+    pValue = 1 - normalCdf(z);
+  } else {
+    const ln = Math.log(n);
+    const mu = polynomial([-1.5861, -0.31082, -0.083751, 0.0038915], ln);
+    const sigma = Math.exp(polynomial([-0.4803, -0.082676, 0.0030302], ln));
+    const z = (Math.log(1 - w) - mu) / sigma;
+    pValue = 1 - normalCdf(z);
+  }
+
+  return { statistic: w, pValue: clampProbability(pValue) };
+};
+
+export const testNormality = (values: number[], alpha = 0.05): NormalityResult => {
+  const andersonDarling = andersonDarlingTest(values);
+  const shapiroWilk = shapiroWilkTest(values);
+  const rejected = [andersonDarling, shapiroWilk].some(test => test !== null && test.pValue < alpha);
+
+  return { n: values.length, alpha, andersonDarling, shapiroWilk, isNormal: !rejected };
+};
+
+// Normal Q-Q points using Blom plotting positions. Normal data falls on the
+// line y = mean + sd * x.
+export const calculateProbabilityPlot = (values: number[]): ProbabilityPlotPoint[] => {
+  const n = values.length;
+  return [...values]
+    .sort((a, b) => a - b)
+    .map((y, i) => ({ x: normalQuantile((i + 1 - 0.375) / (n + 0.25)), y }));
+};
@@ -0,0 +1,65 @@
+import { isOutOfSpec } from './capability';
+import { normalCdf, normalQuantile } from './stats';
+import { DefectRates, PpmEstimate } from './types';
+
+const PER_MILLION = 1e6;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+// Rates from zero defects would give an infinite sigma level
+const MIN_DEFECT_RATE = 1e-12;
+
+const toPpm = (belowLsl: number | null, aboveUsl: number | null): PpmEstimate => ({
+  belowLsl: belowLsl === null ? null : round(belowLsl * PER_MILLION),
+  aboveUsl: aboveUsl === null ? null : round(aboveUsl * PER_MILLION),
+  total: round(((belowLsl ?? 0) + (aboveUsl ?? 0)) * PER_MILLION)
+});
+
+// Tail areas of a normal distribution beyond each spec
+const expectedRates = (processMean: number, stdDev: number, lsl: number | null, usl: number | null) => ({
+  belowLsl: lsl === null ? null : normalCdf((lsl - processMean) / stdDev),
+  aboveUsl: usl === null ? null : 1 - normalCdf((usl - processMean) / stdDev)
+});
+
+export interface DefectRateInput {
+  // Readings behind the indices
+  values: number[];
+  processMean: number;
+  stdDevWithin: number;
+  stdDevOverall: number;
+  lsl: number | null;
+  usl: number | null;
+}
+
+// Sigma level is the Z whose upper tail matches the expected overall
+// defect rate (Z.bench). The shifted level adds the conventional 1.5σ
+// long-term drift, so 3.4 PPM reads as six sigma.
+export const calculateDefectRates = ({
+  values,
+  processMean,
+  stdDevWithin,
+  stdDevOverall,
+  lsl,
+  usl
+}: DefectRateInput): DefectRates => {
+  const within = expectedRates(processMean, stdDevWithin, lsl, usl);
+  const overall = expectedRates(processMean, stdDevOverall, lsl, usl);
+
+  const n = values.length;
+  const observed = toPpm(
+    lsl === null ? null : values.filter(v => v < lsl).length / n,
+    usl === null ? null : values.filter(v => v > usl).length / n
+  );
+
+  const overallRate = (overall.belowLsl ?? 0) + (overall.aboveUsl ?? 0);
+  const sigmaLevel = -normalQuantile(Math.min(Math.max(overallRate, MIN_DEFECT_RATE), 0.5));
+
+  return {
+    observed,
+    observedOutOfSpec: values.filter(v => isOutOfSpec(v, { lsl, usl })).length,
+    expectedWithin: toPpm(within.belowLsl, within.aboveUsl),
+    expectedOverall: toPpm(overall.belowLsl, overall.aboveUsl),
+    sigmaLevel: round(sigmaLevel),
+    sigmaLevelShifted: round(sigmaLevel + 1.5)
+  };
+};
@@ -0,0 +1,100 @@
+import { ChartPoint } from './types';
+
+export type NelsonRule = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export const NELSON_RULES: { rule: NelsonRule; description: string }[] = [
+  { rule: 1, description: '1 point beyond 3σ' },
+  { rule: 2, description: '9 points in a row on one side of the center line' },
+  { rule: 3, description: '6 points in a row steadily increasing or decreasing' },
+  { rule: 4, description: '14 points in a row alternating up and down' },
+  { rule: 5, description: '2 of 3 points beyond 2σ on the same side' },
+  { rule: 6, description: '4 of 5 points beyond 1σ on the same side' },
+  { rule: 7, description: '15 points in a row within 1σ' },
+  { rule: 8, description: '8 points in a row beyond 1σ on either side' }
+];
+
+export const ALL_NELSON_RULES: NelsonRule[] = NELSON_RULES.map(r => r.rule);
+
+export interface ChartLimits {
+  ucl: number;
+  cl: number;
+  lcl: number;
+}
+
+export interface RuleViolation {
+  // Index into the evaluated series and the chart x value of that point
+  index: number;
+  x: number;
+  rules: NelsonRule[];
+}
+
+type RuleCheck = (y: number[], i: number, limits: ChartLimits, sigma: number) => boolean;
+
+const lastN = <T>(items: T[], end: number, n: number): T[] | null =>
+  end + 1 >= n ? items.slice(end - n + 1, end + 1) : null;
+
+// Each rule is checked at the point that completes its pattern, so a
+// violation is reported once the evidence is there rather than back-dated.
+const RULE_CHECKS: Record<NelsonRule, RuleCheck> = {
+  1: (y, i, { ucl, lcl }) => y[i] > ucl || y[i] < lcl,
+  2: (y, i, { cl }) => {
+    const run = lastN(y, i, 9);
+    return !!run && (run.every(v => v > cl) || run.every(v => v < cl));
+  },
+  3: (y, i) => {
+    const run = lastN(y, i, 6);
+    if (!run) return false;
+    const steps = run.slice(1).map((v, k) => v - run[k]);
+    return steps.every(d => d > 0) || steps.every(d => d < 0);
+  },
+  4: (y, i) => {
+    const run = lastN(y, i, 14);
+    if (!run) return false;
+    const steps = run.slice(1).map((v, k) => Math.sign(v - run[k]));
+    return steps.every((s, k) => s !== 0 && (k === 0 || s === -steps[k - 1]));
+  },
+  5: (y, i, { cl }, sigma) => {
+    const run = lastN(y, i, 3);
+    if (!run || sigma <= 0) return false;
+    const above = run.filter(v => v > cl + 2 * sigma).length;
+    const below = run.filter(v => v < cl - 2 * sigma).length;
+    return (above >= 2 && y[i] > cl + 2 * sigma) || (below >= 2 && y[i] < cl - 2 * sigma);
+  },
+  6: (y, i, { cl }, sigma) => {
+    const run = lastN(y, i, 5);
+    if (!run || sigma <= 0) return false;
+    const above = run.filter(v => v > cl + sigma).length;
+    const below = run.filter(v => v < cl - sigma).length;
+    return (above >= 4 && y[i] > cl + sigma) || (below >= 4 && y[i] < cl - sigma);
+  },
+  7: (y, i, { cl }, sigma) => {
+    const run = lastN(y, i, 15);
+    return !!run && sigma > 0 && run.every(v => Math.abs(v - cl) < sigma);
+  },
+  8: (y, i, { cl }, sigma) => {
+    const run = lastN(y, i, 8);
+    return !!run && sigma > 0 && run.every(v => Math.abs(v - cl) > sigma);
+  }
+};
+
+export const evaluateNelsonRules = (
+  points: ChartPoint[],
+  limits: ChartLimits,
+  enabledRules: NelsonRule[] = ALL_NELSON_RULES
+): RuleViolation[] => {
+  // Zones are one third of the distance from the center line to the UCL
+  const sigma = (limits.ucl - limits.cl) / 3;
+  const y = points.map(p => p.y);
+  const violations: RuleViolation[] = [];
+
+  points.forEach((point, index) => {
+    const rules = enabledRules
+      .filter(rule => RULE_CHECKS[rule](y, index, limits, sigma))
+      .sort((a, b) => a - b);
+    if (rules.length > 0) {
+      violations.push({ index, x: point.x, rules });
+    }
+  });
+
+  return violations;
+};
@@ -0,0 +1,60 @@
+import { isSpreadPointExcluded } from './limits';
+import { ALL_NELSON_RULES, evaluateNelsonRules, NelsonRule } from './rules';
+import { ChartPoint, SpcAnalysis, Subgroup } from './types';
+
+export type ChartSeries = 'center' | 'spread';
+
+export interface ChartSignal {
+  chart: ChartSeries;
+  // 1-based subgroup number, as labelled on the chart axis
+  subgroup: number;
+  rules: NelsonRule[];
+  trnDate: string;
+  shifts: string[];
+}
+
+export const getSubgroupShifts = (subgroup: Subgroup): string[] =>
+  Array.from(new Set(subgroup.samples.map(s => s.shiftName || `Shift ${s.shiftCode}`)));
+
+export const detectSignals = (
+  { subgroups, stages, controlCharts }: SpcAnalysis,
+  enabledRules: NelsonRule[] = ALL_NELSON_RULES
+): ChartSignal[] => {
+  const excluded = new Set(controlCharts.exclusions.map(e => e.subgroup));
+
+  // Each stage is judged against its own limits; runs do not carry over
+  // from one stage into the next
+  const segments = stages.length > 0
+    ? stages
+    : [{ start: 1, end: subgroups.length, limits: controlCharts.limits }];
+
+  return segments
+    .flatMap(({ start, end, limits }) => {
+      const inStage = (p: ChartPoint) => p.x >= start && p.x <= end;
+
+      // Excluded points are left out of the runs as well as the limits
+      const centerPoints = controlCharts.xBarData.filter(p => inStage(p) && !excluded.has(p.x));
+      const spreadPoints = controlCharts.spreadData.filter(
+        p => inStage(p) && !isSpreadPointExcluded(p.x, excluded, controlCharts)
+      );
+
+      const series: { chart: ChartSeries; points: ChartPoint[]; ucl: number; cl: number; lcl: number }[] = [
+        { chart: 'center', points: centerPoints, ucl: limits.xBarUcl, cl: limits.xBarMean, lcl: limits.xBarLcl },
+        { chart: 'spread', points: spreadPoints, ucl: limits.spreadUcl, cl: limits.spreadMean, lcl: limits.spreadLcl }
+      ];
+
+      return series.flatMap(({ chart, points, ucl, cl, lcl }) =>
+        evaluateNelsonRules(points, { ucl, cl, lcl }, enabledRules).map(violation => {
+          const subgroup = subgroups[violation.x - 1];
+          return {
+            chart,
+            subgroup: violation.x,
+            rules: violation.rules,
+            trnDate: subgroup.samples[0].trnDate,
+            shifts: getSubgroupShifts(subgroup)
+          };
+        })
+      );
+    })
+    .sort((a, b) => a.subgroup - b.subgroup);
+};
@@ -0,0 +1,64 @@
+import { parseSpecLimits } from './capability';
+import { SpcAnalysisError } from './errors';
+import { parseMeasurement } from './subgroups';
+import { InspectionData, SpcAnalysisOptions, SpecLimits, SpecRevision, SpecSummary } from './types';
+
+const specKey = ({ lsl, usl }: SpecLimits) => `${lsl}|${usl}`;
+
+const byDate = (data: InspectionData[]) =>
+  [...data].sort((a, b) => new Date(a.TrnDate).getTime() - new Date(b.TrnDate).getTime());
+
+export const findSpecRevisions = (data: InspectionData[]): SpecRevision[] => {
+  const revisions = new Map<string, SpecRevision>();
+
+  byDate(data).forEach(d => {
+    const key = specKey(parseSpecLimits(d));
+    const revision = revisions.get(key);
+    if (revision) {
+      revision.lastDate = d.TrnDate;
+      revision.count++;
+    } else {
+      revisions.set(key, { ...parseSpecLimits(d), firstDate: d.TrnDate, lastDate: d.TrnDate, count: 1 });
+    }
+  });
+  return [...revisions.values()];
+};
+
+const toPercentOfTolerance = (d: InspectionData): InspectionData => {
+  const { lsl, usl } = parseSpecLimits(d);
+  if (lsl === null || usl === null || usl <= lsl) {
+    throw new SpcAnalysisError('Percent of tolerance needs both LSL and USL on every reading. Analyze one spec revision instead');
+  }
+  const percent = ((parseMeasurement(d.ActualSpecification) - lsl) / (usl - lsl)) * 100;
+  return { ...d, ActualSpecification: String(percent), FromSpecification: '0', ToSpecification: '100' };
+};
+
+// The readings to analyze under the chosen spec handling, so the rest of the
+// engine always sees a single spec
+export const resolveSpecRevisions = (
+  data: InspectionData[],
+  { specHandling = 'revision', specRevision }: SpcAnalysisOptions
+): { data: InspectionData[]; specs: SpecSummary } => {
+  const revisions = findSpecRevisions(data);
+
+  if (specHandling === 'percent-of-tolerance') {
+    return {
+      data: data.map(toPercentOfTolerance),
+      specs: { revisions, handling: specHandling, revision: null }
+    };
+  }
+
+  if (revisions.length === 1) {
+    return { data, specs: { revisions, handling: specHandling, revision: 0 } };
+  }
+
+  const revision = specRevision !== undefined && specRevision >= 0 && specRevision < revisions.length
+    ? specRevision
+    : revisions.length - 1;
+  const key = specKey(revisions[revision]);
+
+  return {
+    data: data.filter(d => specKey(parseSpecLimits(d)) === key),
+    specs: { revisions, handling: specHandling, revision }
+  };
+};
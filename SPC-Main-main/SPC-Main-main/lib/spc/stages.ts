@@ -0,0 +1,128 @@
+import { format, startOfWeek } from 'date-fns';
+import { StageBy, Subgroup } from './types';
+
+export const STAGE_BY_OPTIONS: { value: StageBy; label: string }[] = [
+  { value: 'none', label: 'No staging' },
+  { value: 'shift', label: 'Shift' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'custom', label: 'Custom stage breaks' }
+];
+
+// Fewer subgroups than this give limits too noisy to judge a stage by
+export const MIN_STAGE_SUBGROUPS = 5;
+
+export interface StageRange {
+  label: string;
+  // First and last 1-based subgroup numbers in the stage
+  start: number;
+  end: number;
+  // Labels of short runs folded into this stage
+  merged: string[];
+}
+
+// Subgroups are labelled by their first reading
+const stageKey = (subgroup: Subgroup, stageBy: StageBy): string => {
+  const sample = subgroup.samples[0];
+  const date = new Date(sample.trnDate);
+
+  switch (stageBy) {
+    case 'shift':
+      return sample.shiftName || `Shift ${sample.shiftCode}`;
+    case 'day':
+      return format(date, 'dd/MM/yyyy');
+    case 'week':
+      return `Week of ${format(startOfWeek(date, { weekStartsOn: 1 }), 'dd/MM/yyyy')}`;
+    default:
+      return '';
+  }
+};
+
+// A new stage starts whenever the stage value changes between consecutive
+// subgroups, so the same shift can appear as several stages. Custom
+// breaks are the subgroup numbers that start a new stage.
+export const splitIntoStages = (
+  subgroups: Subgroup[],
+  stageBy: StageBy,
+  stageBreaks: number[] = []
+): StageRange[] => {
+  if (stageBy === 'none' || subgroups.length === 0) {
+    return [];
+  }
+
+  const stages: StageRange[] = [];
+  const breaks = new Set(stageBreaks);
+
+  subgroups.forEach((subgroup, i) => {
+    const number = i + 1;
+    const current = stages[stages.length - 1];
+
+    if (stageBy === 'custom') {
+      if (!current || breaks.has(number)) {
+        stages.push({ label: `Stage ${stages.length + 1}`, start: number, end: number, merged: [] });
+      } else {
+        current.end = number;
+      }
+      return;
+    }
+
+    const key = stageKey(subgroup, stageBy);
+    if (current && current.label === key) {
+      current.end = number;
+    } else {
+      stages.push({ label: key, start: number, end: number, merged: [] });
+    }
+  });
+
+  return stages;
+};
+
+// A run with too few usable subgroups joins the stage before it, or the one
+// after it when it is the first run. If no run is long enough the result is
+// a single stage covering everything. A merge can leave two neighbouring
+// stages with the same label, e.g. shift A either side of a short shift B;
+// those become one stage, since nothing changes between them.
+export const mergeShortStages = (
+  stages: StageRange[],
+  excluded: Set<number>,
+  minimum = MIN_STAGE_SUBGROUPS
+): StageRange[] => {
+  const usable = ({ start, end }: StageRange) => {
+    let count = 0;
+    for (let n = start; n <= end; n++) {
+      if (!excluded.has(n)) count++;
+    }
+    return count;
+  };
+
+  const absorb = (previous: StageRange, stage: StageRange) => {
+    previous.end = stage.end;
+    [stage.label, ...stage.merged].forEach(label => {
+      if (label !== previous.label && !previous.merged.includes(label)) previous.merged.push(label);
+    });
+  };
+
+  const result: StageRange[] = [];
+  let pending: StageRange | null = null;
+
+  stages.forEach(range => {
+    const stage: StageRange = pending
+      ? { ...range, start: pending.start, merged: [...pending.merged, pending.label, ...range.merged] }
+      : { ...range, merged: [...range.merged] };
+    pending = null;
+
+    const previous = result[result.length - 1];
+    if (previous && (previous.label === stage.label || usable(stage) < minimum)) {
+      absorb(previous, stage);
+    } else if (usable(stage) >= minimum) {
+      result.push(stage);
+    } else {
+      pending = stage;
+    }
+  });
+
+  if (pending) {
+    result.push(pending);
+  }
+  return result;
+};
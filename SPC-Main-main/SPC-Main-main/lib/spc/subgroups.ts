@@ -0,0 +1,76 @@
+import { SpcAnalysisError } from './errors';
+import { sampleStdDev } from './stats';
+import { InspectionData, Subgroup, SubgroupSample } from './types';
+
+// Clean and parse the numeric value - remove L50 suffix and any commas
+export const parseMeasurement = (raw: string): number => {
+  const cleanValue = raw.replace(/L50|,/g, '');
+  return parseFloat(cleanValue);
+};
+
+export const calculateSubgroups = (data: InspectionData[], size: number): Subgroup[] => {
+  const sortedData = data
+    .map(d => {
+      const value = parseMeasurement(d.ActualSpecification);
+
+      if (isNaN(value)) {
+        console.warn('Invalid measurement value found:', d.ActualSpecification);
+        return null;
+      }
+      return {
+        ...d,
+        value,
+        date: new Date(d.TrnDate)
+      };
+    })
+    .filter((d): d is NonNullable<typeof d> => d !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  if (sortedData.length === 0) {
+    throw new SpcAnalysisError('No valid data points found');
+  }
+
+  const toSample = (d: (typeof sortedData)[number]): SubgroupSample => ({
+    value: d.value,
+    actualSpecification: d.ActualSpecification,
+    trnDate: d.TrnDate,
+    shiftCode: d.ShiftCode,
+    shiftName: d.ShiftName
+  });
+
+  const subgroups: Subgroup[] = [];
+
+  if (size === 1) {
+    // For sample size 1, use individual values. A single reading has no
+    // spread of its own; moving ranges are taken across readings instead.
+    sortedData.forEach(data => {
+      subgroups.push({
+        mean: data.value,
+        range: 0,
+        stdDev: 0,
+        values: [data.value],
+        samples: [toSample(data)]
+      });
+    });
+  } else {
+    // For sample sizes > 1, group data points
+    for (let i = 0; i < sortedData.length - (size - 1); i += size) {
+      const groupData = sortedData.slice(i, i + size);
+      const values = groupData.map(d => d.value);
+
+      subgroups.push({
+        mean: values.reduce((a, b) => a + b, 0) / size,
+        range: Math.max(...values) - Math.min(...values),
+        stdDev: sampleStdDev(values),
+        values,
+        samples: groupData.map(toSample)
+      });
+    }
+  }
+
+  if (subgroups.length === 0) {
+    throw new SpcAnalysisError(`Not enough data points for sample size ${size}`);
+  }
+
+  return subgroups;
+};
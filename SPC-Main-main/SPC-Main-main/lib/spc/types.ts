@@ -0,0 +1,313 @@
+// Input and result types for the SPC statistics engine.
+// Kept free of React and API imports so the math can run anywhere.
+
+export interface InspectionData {
+  ActualSpecification: string;
+  FromSpecification: string;
+  ToSpecification: string;
+  ShiftCode: number;
+  ShiftName?: string;
+  TrnDate: string;
+}
+
+export type ChartType = 'xbar-r' | 'xbar-s' | 'i-mr';
+
+export type StageBy = 'none' | 'shift' | 'day' | 'week' | 'custom';
+
+// One parsed reading, kept with the record it came from
+export interface SubgroupSample {
+  value: number;
+  actualSpecification: string;
+  trnDate: string;
+  shiftCode: number;
+  shiftName?: string;
+}
+
+export interface Subgroup {
+  mean: number;
+  range: number;
+  stdDev: number;
+  values: number[];
+  samples: SubgroupSample[];
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+export interface ControlLimits {
+  xBarUcl: number;
+  xBarLcl: number;
+  xBarMean: number;
+  // Limits of the lower (range or standard deviation) chart
+  spreadUcl: number;
+  spreadLcl: number;
+  spreadMean: number;
+}
+
+// A missing bound means a one-sided specification, e.g. a maximum runout
+export interface SpecLimits {
+  lsl: number | null;
+  usl: number | null;
+}
+
+// Cp needs both bounds and Cpu/Cpl need their own; Cpk uses whichever exist
+export interface CapabilityIndices {
+  cp: number | null;
+  cpu: number | null;
+  cpl: number | null;
+  cpk: number;
+}
+
+export interface HistogramBin {
+  x: number;
+  y: number;
+  isWithinSpec: boolean;
+  containsTarget: boolean;
+}
+
+export type BinningRule = 'sqrt' | 'sturges' | 'scott' | 'freedman-diaconis' | 'manual';
+
+export interface HistogramOptions {
+  rule: BinningRule;
+  // Manual rule only: bin width, and a value that falls on a bin edge
+  binWidth?: number;
+  anchor?: number;
+  // Extend the bins out to LSL/USL when the specs lie beyond the readings
+  includeSpecs: boolean;
+}
+
+export interface Histogram {
+  bins: HistogramBin[];
+  numberOfBins: number;
+  min: number;
+  max: number;
+  processWidth: number;
+  binWidth: number;
+  binStart: number;
+}
+
+export interface SpcMetrics {
+  xBar: number;
+  stdDevOverall: number;
+  stdDevWithin: number;
+  spreadMean: number;
+  cp: number | null;
+  cpkUpper: number | null;
+  cpkLower: number | null;
+  cpk: number;
+  pp: number | null;
+  ppu: number | null;
+  ppl: number | null;
+  ppk: number;
+  lsl: number | null;
+  usl: number | null;
+  // How each sigma was estimated, e.g. 'R̄/d2' or 'Sample std dev'
+  stdDevWithinBasis: string;
+  stdDevOverallBasis: string;
+}
+
+export interface DistributionStats {
+  mean: number;
+  // Overall sigma
+  stdDev: number;
+  stdDevWithin: number;
+  // Midpoint of the spec; null for a one-sided spec
+  target: number | null;
+  min: number;
+  max: number;
+  processWidth: number;
+  binWidth: number;
+  binStart: number;
+}
+
+// A subgroup left out of the limits, capability and histogram for an
+// assignable cause, e.g. setup pieces or a faulty gauge
+export interface PointExclusion {
+  // 1-based subgroup number, as labelled on the chart axis
+  subgroup: number;
+  reason: string;
+}
+
+export interface NormalityTestResult {
+  statistic: number;
+  pValue: number;
+}
+
+export interface NormalityResult {
+  n: number;
+  alpha: number;
+  andersonDarling: NormalityTestResult | null;
+  // Royston's approximation covers 3 to 5000 readings
+  shapiroWilk: NormalityTestResult | null;
+  // False when either test rejects normality at alpha
+  isNormal: boolean;
+}
+
+export interface ProbabilityPlotPoint {
+  // Expected standard normal quantile and the observed reading
+  x: number;
+  y: number;
+}
+
+export type CapabilityMethod = 'normal' | 'box-cox' | 'johnson' | 'percentile';
+
+// Capability for skewed characteristics, on the transformed scale or from
+// distribution percentiles
+export interface NonNormalCapability {
+  method: Exclude<CapabilityMethod, 'normal'>;
+  description: string;
+  parameters: { label: string; value: number }[];
+  // The percentile method only gives overall (Pp/Ppk) indices
+  cp: number | null;
+  cpk: number | null;
+  pp: number | null;
+  ppu: number | null;
+  ppl: number | null;
+  ppk: number;
+  // Normality of the transformed readings; null for the percentile method
+  transformedNormality: NormalityTestResult | null;
+  // Set when the requested fit could not be used as is
+  warning: string | null;
+}
+
+// How to analyze a range whose spec limits change part way through, e.g.
+// after a drawing revision. Percent of tolerance charts every reading as
+// (x - LSL) / (USL - LSL) × 100 against its own row's spec.
+export type SpecHandling = 'revision' | 'percent-of-tolerance';
+
+// One distinct set of spec limits in the fetched data
+export interface SpecRevision {
+  lsl: number | null;
+  usl: number | null;
+  // First and last inspection dates with this spec
+  firstDate: string;
+  lastDate: string;
+  count: number;
+}
+
+export interface SpecSummary {
+  // In order of first use; more than one means the spec changed in the range
+  revisions: SpecRevision[];
+  handling: SpecHandling;
+  // Index of the revision analyzed; null when normalized to percent of tolerance
+  revision: number | null;
+}
+
+export interface SpcAnalysisOptions {
+  sampleSize: number;
+  chartType: ChartType;
+  // Points per moving range on I-MR charts (2-5, default 2)
+  movingRangeSpan?: number;
+  // Phase II: plot against limits frozen from a baseline period instead of
+  // limits calculated from this data
+  frozenLimits?: ControlLimits;
+  exclusions?: PointExclusion[];
+  // Split the chart into stages with their own limits (Phase I only)
+  stageBy?: StageBy;
+  // Subgroup numbers that start a new stage when staging by custom breaks
+  stageBreaks?: number[];
+  capabilityMethod?: CapabilityMethod;
+  specHandling?: SpecHandling;
+  // Confidence level for the capability intervals, e.g. 0.95
+  confidenceLevel?: number;
+  // Index into the spec revisions; defaults to the latest
+  specRevision?: number;
+  histogram?: HistogramOptions;
+}
+
+export interface ConfidenceInterval {
+  estimate: number;
+  // Two-sided interval at the chosen level
+  lower: number;
+  upper: number;
+  // One-sided lower confidence bound at the same level
+  lowerBound: number;
+}
+
+// Intervals for the normal-theory indices; null where a one-sided spec
+// leaves the index undefined
+export interface CapabilityIntervals {
+  level: number;
+  cp: ConfidenceInterval | null;
+  cpu: ConfidenceInterval | null;
+  cpl: ConfidenceInterval | null;
+  cpk: ConfidenceInterval;
+  pp: ConfidenceInterval | null;
+  ppu: ConfidenceInterval | null;
+  ppl: ConfidenceInterval | null;
+  ppk: ConfidenceInterval;
+}
+
+// Parts per million out of spec; null for a side with no spec limit
+export interface PpmEstimate {
+  belowLsl: number | null;
+  aboveUsl: number | null;
+  total: number;
+}
+
+export interface DefectRates {
+  // From the readings themselves
+  observed: PpmEstimate;
+  observedOutOfSpec: number;
+  // From a normal distribution at the process mean with each sigma
+  expectedWithin: PpmEstimate;
+  expectedOverall: PpmEstimate;
+  // Z.bench of the expected overall rate, without and with the 1.5σ shift
+  sigmaLevel: number;
+  sigmaLevelShifted: number;
+}
+
+export type LimitPhase = 'I' | 'II';
+
+// One stage of a staged chart, with limits and capability from its own
+// subgroups only
+export interface SpcStage {
+  label: string;
+  // First and last 1-based subgroup numbers in the stage
+  start: number;
+  end: number;
+  // Runs too short for their own limits, folded into this stage
+  merged: string[];
+  limits: ControlLimits;
+  xBar: number;
+  stdDevWithin: number;
+  stdDevOverall: number;
+  cp: number | null;
+  cpk: number;
+  pp: number | null;
+  ppk: number;
+}
+
+export interface SpcAnalysis {
+  subgroups: Subgroup[];
+  specs: SpecSummary;
+  // Empty unless the analysis is staged
+  stages: SpcStage[];
+  metrics: SpcMetrics;
+  capabilityIntervals: CapabilityIntervals;
+  defectRates: DefectRates;
+  // Tested on the readings behind the capability indices
+  normality: NormalityResult;
+  // Null when capability uses the normal method
+  nonNormalCapability: NonNormalCapability | null;
+  controlCharts: {
+    chartType: ChartType;
+    sampleSize: number;
+    movingRangeSpan?: number;
+    phase: LimitPhase;
+    exclusions: PointExclusion[];
+    xBarData: ChartPoint[];
+    spreadData: ChartPoint[];
+    limits: ControlLimits;
+  };
+  distribution: {
+    // Readings left after exclusions, in time order
+    values: number[];
+    data: HistogramBin[];
+    stats: DistributionStats;
+    numberOfBins: number;
+    binning: HistogramOptions;
+  };
+}